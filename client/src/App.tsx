@@ -3,28 +3,53 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { AuthProvider } from "@/hooks/use-auth";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
 import { ProtectedRoute } from "./lib/protected-route";
 import { NavBar } from "@/components/layout/nav-bar";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
+import ForgotPasswordPage from "@/pages/forgot-password-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
+import VerifyEmailPage from "@/pages/verify-email-page";
 import AdminDashboard from "@/pages/admin/dashboard";
 import AdminManage from "@/pages/admin/manage";
 import AdminFixtures from "@/pages/admin/fixtures";
 import ManageFixtures from "@/pages/admin/manage-fixtures";
+import AdminJobs from "@/pages/admin/jobs";
+import AdminNotifications from "@/pages/admin/notifications";
+import AdminUsers from "@/pages/admin/users";
+import AdminAuditLog from "@/pages/admin/audit";
 import PlayerDashboard from "@/pages/player/dashboard";
 import GameWeeksPage from "@/pages/player/game-weeks";
+import LeaguesPage from "@/pages/player/leagues";
+import StandingsPage from "@/pages/player/standings";
+import ProfilePage from "@/pages/player/profile";
+import StatsPage from "@/pages/player/stats";
 
 function Router() {
+  useLiveUpdates();
+
   return (
     <>
       <NavBar />
       <Switch>
         <Route path="/auth" component={AuthPage} />
+        <Route path="/forgot-password" component={ForgotPasswordPage} />
+        <Route path="/reset-password" component={ResetPasswordPage} />
+        <Route path="/verify-email" component={VerifyEmailPage} />
         <ProtectedRoute path="/admin" component={AdminDashboard} />
         <ProtectedRoute path="/admin/manage" component={AdminManage} />
         <ProtectedRoute path="/admin/fixtures" component={AdminFixtures} />
         <ProtectedRoute path="/admin/manage-fixtures" component={ManageFixtures} />
+        <ProtectedRoute path="/admin/jobs" component={AdminJobs} />
+        <ProtectedRoute path="/admin/notifications" component={AdminNotifications} />
+        <ProtectedRoute path="/admin/users" component={AdminUsers} />
+        <ProtectedRoute path="/admin/audit" component={AdminAuditLog} />
         <ProtectedRoute path="/game-weeks" component={GameWeeksPage} />
+        <ProtectedRoute path="/leagues" component={LeaguesPage} />
+        <ProtectedRoute path="/standings" component={StandingsPage} />
+        <ProtectedRoute path="/profile" component={ProfilePage} />
+        <ProtectedRoute path="/stats" component={StatsPage} />
         <ProtectedRoute path="/" component={PlayerDashboard} />
         <Route component={NotFound} />
       </Switch>
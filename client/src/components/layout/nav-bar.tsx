@@ -1,7 +1,11 @@
 import { Link, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { hasRole, type LeagueSummary } from "@shared/schema";
 import { Button } from "@/components/ui/button";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -9,10 +13,83 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Trophy, Menu, ChevronRight, LogOut, User, Settings, Home, Calendar } from "lucide-react";
+import { Trophy, Menu, ChevronRight, LogOut, User, Settings, Home, Calendar, Users, Check, ChevronDown, ListOrdered, BarChart3 } from "lucide-react";
 import { motion } from "framer-motion";
 import { cn } from "@/lib/utils";
 
+function LeagueSwitcher() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: leagues } = useQuery<LeagueSummary[]>({
+    queryKey: ["/api/leagues"],
+    enabled: !!user,
+  });
+
+  const switchLeagueMutation = useMutation({
+    mutationFn: async (leagueId: number | null) => {
+      const res = await apiRequest("POST", "/api/leagues/active", { leagueId });
+      return res.json();
+    },
+    onSuccess: () => {
+      // Rounds, picks and standings all depend on the league, so refetch everything
+      queryClient.invalidateQueries();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to switch league",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const activeLeague = leagues?.find(l => l.id === user?.activeLeagueId);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2 max-w-[180px]">
+          <Users className="h-4 w-4 shrink-0" />
+          <span className="truncate">{activeLeague?.name ?? "Public game"}</span>
+          <ChevronDown className="h-4 w-4 shrink-0 opacity-60" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <div className="px-2 py-1.5 text-xs font-medium text-muted-foreground">
+          Switch league
+        </div>
+        <DropdownMenuItem
+          className="cursor-pointer flex items-center"
+          onClick={() => switchLeagueMutation.mutate(null)}
+        >
+          <span className="flex-1">Public game</span>
+          {!activeLeague && <Check className="h-4 w-4 text-primary" />}
+        </DropdownMenuItem>
+        {leagues?.map((league) => (
+          <DropdownMenuItem
+            key={league.id}
+            className="cursor-pointer flex items-center"
+            onClick={() => switchLeagueMutation.mutate(league.id)}
+          >
+            <span className="flex-1 truncate">{league.name}</span>
+            {activeLeague?.id === league.id && <Check className="h-4 w-4 text-primary" />}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/leagues">
+            <div className="w-full cursor-pointer flex items-center">
+              <Settings className="mr-2 h-4 w-4" />
+              <span>Create or join a league</span>
+            </div>
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
 export function NavBar() {
   const { user, logoutMutation } = useAuth();
   const [location] = useLocation();
@@ -41,6 +118,8 @@ export function NavBar() {
 
         {user && (
           <div className="flex items-center gap-4">
+            <LeagueSwitcher />
+
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" size="icon" className="md:hidden">
@@ -64,7 +143,31 @@ export function NavBar() {
                     </div>
                   </Link>
                 </DropdownMenuItem>
-                {user.isAdmin && (
+                <DropdownMenuItem asChild>
+                  <Link href="/leagues">
+                    <div className="w-full cursor-pointer flex items-center">
+                      <Users className="mr-2 h-4 w-4" />
+                      <span>Leagues</span>
+                    </div>
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href="/standings">
+                    <div className="w-full cursor-pointer flex items-center">
+                      <ListOrdered className="mr-2 h-4 w-4" />
+                      <span>Standings</span>
+                    </div>
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href="/stats">
+                    <div className="w-full cursor-pointer flex items-center">
+                      <BarChart3 className="mr-2 h-4 w-4" />
+                      <span>Stats</span>
+                    </div>
+                  </Link>
+                </DropdownMenuItem>
+                {hasRole(user, "organiser") && (
                   <>
                     <DropdownMenuSeparator />
                     <div className="px-2 py-1.5 text-xs font-medium text-muted-foreground">
@@ -78,6 +181,10 @@ export function NavBar() {
                         </div>
                       </Link>
                     </DropdownMenuItem>
+                  </>
+                )}
+                {hasRole(user, "super_admin") && (
+                  <>
                     <DropdownMenuItem asChild>
                       <Link href="/admin/fixtures">
                         <div className="w-full cursor-pointer flex items-center">
@@ -94,6 +201,38 @@ export function NavBar() {
                         </div>
                       </Link>
                     </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link href="/admin/jobs">
+                        <div className="w-full cursor-pointer flex items-center">
+                          <ChevronRight className="mr-2 h-4 w-4" />
+                          <span>Jobs</span>
+                        </div>
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link href="/admin/notifications">
+                        <div className="w-full cursor-pointer flex items-center">
+                          <ChevronRight className="mr-2 h-4 w-4" />
+                          <span>Emails</span>
+                        </div>
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link href="/admin/users">
+                        <div className="w-full cursor-pointer flex items-center">
+                          <ChevronRight className="mr-2 h-4 w-4" />
+                          <span>Users</span>
+                        </div>
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link href="/admin/audit">
+                        <div className="w-full cursor-pointer flex items-center">
+                          <ChevronRight className="mr-2 h-4 w-4" />
+                          <span>Audit Log</span>
+                        </div>
+                      </Link>
+                    </DropdownMenuItem>
                   </>
                 )}
               </DropdownMenuContent>
@@ -133,7 +272,55 @@ export function NavBar() {
                     </motion.div>
                   </Link>
                 </li>
-                {user.isAdmin && (
+                <li>
+                  <Link href="/leagues">
+                    <motion.div
+                      whileHover={{ y: -2 }}
+                      className={cn(
+                        "text-sm font-medium transition-colors flex items-center gap-1 px-3 py-2 rounded-md",
+                        location === "/leagues" 
+                          ? "text-primary bg-primary/10" 
+                          : "text-muted-foreground hover:text-primary"
+                      )}
+                    >
+                      <Users className="h-4 w-4 mr-1" />
+                      Leagues
+                    </motion.div>
+                  </Link>
+                </li>
+                <li>
+                  <Link href="/standings">
+                    <motion.div
+                      whileHover={{ y: -2 }}
+                      className={cn(
+                        "text-sm font-medium transition-colors flex items-center gap-1 px-3 py-2 rounded-md",
+                        location === "/standings" 
+                          ? "text-primary bg-primary/10" 
+                          : "text-muted-foreground hover:text-primary"
+                      )}
+                    >
+                      <ListOrdered className="h-4 w-4 mr-1" />
+                      Standings
+                    </motion.div>
+                  </Link>
+                </li>
+                <li>
+                  <Link href="/stats">
+                    <motion.div
+                      whileHover={{ y: -2 }}
+                      className={cn(
+                        "text-sm font-medium transition-colors flex items-center gap-1 px-3 py-2 rounded-md",
+                        location === "/stats" 
+                          ? "text-primary bg-primary/10" 
+                          : "text-muted-foreground hover:text-primary"
+                      )}
+                    >
+                      <BarChart3 className="h-4 w-4 mr-1" />
+                      Stats
+                    </motion.div>
+                  </Link>
+                </li>
+                {hasRole(user, "organiser") && (
                   <>
                     <li>
                       <Link href="/admin">
@@ -151,6 +338,10 @@ export function NavBar() {
                         </motion.div>
                       </Link>
                     </li>
+                  </>
+                )}
+                {hasRole(user, "super_admin") && (
+                  <>
                     <li>
                       <Link href="/admin/fixtures">
                         <motion.div
@@ -181,6 +372,66 @@ export function NavBar() {
                         </motion.div>
                       </Link>
                     </li>
+                    <li>
+                      <Link href="/admin/jobs">
+                        <motion.div
+                          whileHover={{ y: -2 }}
+                          className={cn(
+                            "text-sm font-medium transition-colors flex items-center gap-1 px-3 py-2 rounded-md",
+                            location === "/admin/jobs" 
+                              ? "text-primary bg-primary/10" 
+                              : "text-muted-foreground hover:text-primary"
+                          )}
+                        >
+                          Jobs
+                        </motion.div>
+                      </Link>
+                    </li>
+                    <li>
+                      <Link href="/admin/notifications">
+                        <motion.div
+                          whileHover={{ y: -2 }}
+                          className={cn(
+                            "text-sm font-medium transition-colors flex items-center gap-1 px-3 py-2 rounded-md",
+                            location === "/admin/notifications" 
+                              ? "text-primary bg-primary/10" 
+                              : "text-muted-foreground hover:text-primary"
+                          )}
+                        >
+                          Emails
+                        </motion.div>
+                      </Link>
+                    </li>
+                    <li>
+                      <Link href="/admin/users">
+                        <motion.div
+                          whileHover={{ y: -2 }}
+                          className={cn(
+                            "text-sm font-medium transition-colors flex items-center gap-1 px-3 py-2 rounded-md",
+                            location === "/admin/users" 
+                              ? "text-primary bg-primary/10" 
+                              : "text-muted-foreground hover:text-primary"
+                          )}
+                        >
+                          Users
+                        </motion.div>
+                      </Link>
+                    </li>
+                    <li>
+                      <Link href="/admin/audit">
+                        <motion.div
+                          whileHover={{ y: -2 }}
+                          className={cn(
+                            "text-sm font-medium transition-colors flex items-center gap-1 px-3 py-2 rounded-md",
+                            location === "/admin/audit" 
+                              ? "text-primary bg-primary/10" 
+                              : "text-muted-foreground hover:text-primary"
+                          )}
+                        >
+                          Audit
+                        </motion.div>
+                      </Link>
+                    </li>
                   </>
                 )}
               </ul>
@@ -193,8 +444,9 @@ export function NavBar() {
                   className="relative h-10 w-10 rounded-full overflow-hidden border border-border/50 hover:border-primary/30 transition-colors"
                 >
                   <Avatar className="h-10 w-10">
+                    {user.avatarUrl && <AvatarImage src={user.avatarUrl} alt="" />}
                     <AvatarFallback className="bg-primary/10 text-primary">
-                      {user.username[0].toUpperCase()}
+                      {(user.displayName || user.username)[0].toUpperCase()}
                     </AvatarFallback>
                   </Avatar>
                   <motion.span 
@@ -207,13 +459,21 @@ export function NavBar() {
               <DropdownMenuContent className="w-56" align="end" forceMount>
                 <div className="flex items-center justify-start gap-2 p-2">
                   <div className="flex flex-col space-y-1 leading-none">
-                    <p className="font-medium">{user.username}</p>
+                    <p className="font-medium">{user.displayName || user.username}</p>
                     <p className="text-xs text-muted-foreground">
                       {user.email}
                     </p>
                   </div>
                 </div>
                 <DropdownMenuSeparator />
+                <DropdownMenuItem asChild>
+                  <Link href="/profile">
+                    <div className="w-full cursor-pointer flex items-center">
+                      <User className="mr-2 h-4 w-4" />
+                      <span>Profile</span>
+                    </div>
+                  </Link>
+                </DropdownMenuItem>
                 <DropdownMenuItem 
                   className="cursor-pointer flex items-center"
                   onClick={() => logoutMutation.mutate()}
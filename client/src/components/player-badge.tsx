@@ -0,0 +1,31 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+import type { PublicProfile } from "@shared/schema";
+
+interface PlayerBadgeProps {
+  player: PublicProfile;
+  className?: string;
+}
+
+// Avatar and display name for a player, with their favourite team's crest if they have one
+export function PlayerBadge({ player, className }: PlayerBadgeProps) {
+  return (
+    <span className={cn("inline-flex items-center gap-2", className)}>
+      <Avatar className="h-6 w-6">
+        {player.avatarUrl && <AvatarImage src={player.avatarUrl} alt="" />}
+        <AvatarFallback className="bg-primary/10 text-primary text-xs">
+          {player.displayName[0].toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      <span>{player.displayName}</span>
+      {player.favouriteTeam?.crest && (
+        <img
+          src={player.favouriteTeam.crest}
+          alt={player.favouriteTeam.name}
+          title={player.favouriteTeam.name}
+          className="w-4 h-4"
+        />
+      )}
+    </span>
+  );
+}
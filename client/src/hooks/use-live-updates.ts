@@ -0,0 +1,59 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import type { LiveFixturesEvent, LiveFixtureUpdate } from "@shared/schema";
+
+type CachedFixture = { id: number };
+
+function patchFixtures<T extends CachedFixture>(fixtures: T[] | undefined, updates: Map<number, LiveFixtureUpdate>) {
+  if (!fixtures) return fixtures;
+  return fixtures.map((fixture) => {
+    const update = updates.get(fixture.id);
+    if (!update) return fixture;
+    const { id, gameWeekIds, ...result } = update;
+    return { ...fixture, ...result };
+  });
+}
+
+function applyFixturesEvent(event: LiveFixturesEvent) {
+  const updates = new Map(event.fixtures.map((fixture) => [fixture.id, fixture]));
+
+  queryClient.setQueryData<CachedFixture[]>(["/api/fixtures/all"], (fixtures) => patchFixtures(fixtures, updates));
+
+  const gameWeekIds = new Set(event.fixtures.flatMap((fixture) => fixture.gameWeekIds));
+  gameWeekIds.forEach((gameWeekId) => {
+    queryClient.setQueryData<CachedFixture[]>(
+      [`/api/game-weeks/${gameWeekId}/fixtures`],
+      (fixtures) => patchFixtures(fixtures, updates),
+    );
+    // Pick results and projections are refetched, so the server decides what this player may see
+    queryClient.invalidateQueries({ queryKey: [`/api/game-weeks/${gameWeekId}/picks`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/game-weeks/${gameWeekId}/live`] });
+  });
+
+  // A final result can settle the game week, which moves the current round on
+  if (event.fixtures.some((fixture) => fixture.status === "FINISHED")) {
+    queryClient.invalidateQueries({ queryKey: ["/api/current"] });
+  }
+}
+
+// Keeps cached fixtures and picks in step with live scores while a player is signed in
+export function useLiveUpdates() {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    // EventSource reconnects on its own after a dropped connection
+    const source = new EventSource("/api/live", { withCredentials: true });
+    source.addEventListener("fixtures", (message) => {
+      try {
+        applyFixturesEvent(JSON.parse((message as MessageEvent<string>).data));
+      } catch (error) {
+        console.error("Failed to apply live fixture update:", error);
+      }
+    });
+
+    return () => source.close();
+  }, [user?.id]);
+}
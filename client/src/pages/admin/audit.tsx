@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { PlayerBadge } from "@/components/player-badge";
+import {
+  hasRole, auditActions, auditEntityTypes,
+  type AuditLogView, type PublicUser,
+} from "@shared/schema";
+
+const ALL = "all";
+
+interface Filters {
+  action: string;
+  entityType: string;
+  entityId: string;
+  actorId: string;
+  from: string;
+  to: string;
+}
+
+const emptyFilters: Filters = { action: ALL, entityType: ALL, entityId: "", actorId: ALL, from: "", to: "" };
+
+function toQueryString(filters: Filters) {
+  const params = new URLSearchParams();
+  if (filters.action !== ALL) params.set("action", filters.action);
+  if (filters.entityType !== ALL) params.set("entityType", filters.entityType);
+  if (filters.entityId) params.set("entityId", filters.entityId);
+  if (filters.actorId !== ALL) params.set("actorId", filters.actorId);
+  if (filters.from) params.set("from", new Date(filters.from).toISOString());
+  // The whole of the "to" day is included
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params.toString();
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined || value === null) return "none";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// Lists only the fields the change touched
+function ChangeSummary({ entry }: { entry: AuditLogView }) {
+  const before = entry.before ?? {};
+  const after = entry.after ?? {};
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+
+  if (keys.length === 0) {
+    return <span className="text-muted-foreground">-</span>;
+  }
+
+  return (
+    <div className="space-y-0.5 text-xs font-mono">
+      {keys.map((key) => (
+        <div key={key} className="break-all">
+          <span className="text-muted-foreground">{key}:</span>{" "}
+          {entry.before && <span className="text-red-500">{formatValue(before[key])}</span>}
+          {entry.before && entry.after && " → "}
+          {entry.after && <span className="text-green-600">{formatValue(after[key])}</span>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function AuditLogPage() {
+  const { user } = useAuth();
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const isSuperAdmin = hasRole(user, "super_admin");
+
+  const queryString = toQueryString(filters);
+  const { data: entries, isLoading } = useQuery<AuditLogView[]>({
+    queryKey: [queryString ? `/api/audit-log?${queryString}` : "/api/audit-log"],
+    enabled: isSuperAdmin,
+  });
+
+  const { data: users } = useQuery<PublicUser[]>({
+    queryKey: ["/api/admin/users"],
+    enabled: isSuperAdmin,
+  });
+
+  const setFilter = (key: keyof Filters) => (value: string) => setFilters((current) => ({ ...current, [key]: value }));
+
+  if (!isSuperAdmin) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-destructive">Admin access required</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="max-w-[1400px] mx-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <h1 className="text-3xl font-bold bg-gradient-to-br from-primary to-primary/80 bg-clip-text text-transparent">
+            Audit Log
+          </h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Filters</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-6 items-end">
+              <div className="space-y-2">
+                <Label>Action</Label>
+                <Select value={filters.action} onValueChange={setFilter("action")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All actions</SelectItem>
+                    {auditActions.map((action) => (
+                      <SelectItem key={action} value={action}>{action}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Entity</Label>
+                <Select value={filters.entityType} onValueChange={setFilter("entityType")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All entities</SelectItem>
+                    {auditEntityTypes.map((type) => (
+                      <SelectItem key={type} value={type}>{type.replace("_", " ")}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Entity ID</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={filters.entityId}
+                  onChange={(e) => setFilter("entityId")(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Changed by</Label>
+                <Select value={filters.actorId} onValueChange={setFilter("actorId")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Anyone</SelectItem>
+                    {users?.map((u) => (
+                      <SelectItem key={u.id} value={u.id.toString()}>{u.displayName || u.username}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Input type="date" value={filters.from} onChange={(e) => setFilter("from")(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <Input type="date" value={filters.to} onChange={(e) => setFilter("to")(e.target.value)} />
+              </div>
+            </div>
+            <Button variant="outline" className="mt-4" onClick={() => setFilters(emptyFilters)}>
+              Clear Filters
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Changes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : !entries || entries.length === 0 ? (
+              <p className="text-muted-foreground">No changes match these filters</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Changed by</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Entity</TableHead>
+                    <TableHead>Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(entry.createdAt), "MMM d, HH:mm:ss")}
+                      </TableCell>
+                      <TableCell>
+                        {entry.actor ? (
+                          <PlayerBadge player={entry.actor} />
+                        ) : (
+                          <span className="text-muted-foreground">System</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-medium whitespace-nowrap">{entry.action}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {entry.entityType.replace("_", " ")}
+                        {entry.entityId !== null && ` #${entry.entityId}`}
+                      </TableCell>
+                      <TableCell>
+                        <ChangeSummary entry={entry} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
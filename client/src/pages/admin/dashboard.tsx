@@ -8,7 +8,7 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm, UseFormSetValue } from "react-hook-form";
-import { insertSeasonSchema, insertRoundSchema, insertGameWeekSchema } from "@shared/schema";
+import { hasRole, insertSeasonSchema, insertRoundSchema, insertGameWeekSchema, parseRoundRules, competitions, type League } from "@shared/schema";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -66,20 +66,31 @@ interface CurrentData {
 interface Season {
   id: number;
   name: string;
-  // Add other necessary Season properties here if needed.
+  competition: string;
+  isActive: boolean;
 }
 
 interface Round {
   id: number;
   number: number;
   seasonId: number;
+  leagueId: number | null;
+}
+
+function competitionName(code: string) {
+  return competitions.find((c) => c.code === code)?.name ?? code;
 }
 
 function FixtureSyncSection() {
   const [dateFrom, setDateFrom] = useState<Date>();
   const [dateTo, setDateTo] = useState<Date>();
+  const [seasonId, setSeasonId] = useState<string>();
   const { toast } = useToast();
 
+  const { data: seasons } = useQuery<Season[]>({
+    queryKey: ["/api/seasons/all"],
+  });
+
   const syncFixturesMutation = useMutation({
     mutationFn: async () => {
       const formattedDateFrom = dateFrom ? format(dateFrom, 'yyyy-MM-dd') : undefined;
@@ -88,6 +99,7 @@ function FixtureSyncSection() {
       const res = await apiRequest("POST", "/api/fixtures/sync", {
         dateFrom: formattedDateFrom,
         dateTo: formattedDateTo,
+        seasonId: seasonId ? parseInt(seasonId) : undefined,
       });
       return res.json();
     },
@@ -113,6 +125,22 @@ function FixtureSyncSection() {
       </CardHeader>
       <CardContent>
         <div className="flex flex-col sm:flex-row gap-4">
+          <div className="grid gap-2 flex-1">
+            <Label>Season</Label>
+            <Select value={seasonId} onValueChange={setSeasonId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Active season" />
+              </SelectTrigger>
+              <SelectContent>
+                {seasons?.map((season) => (
+                  <SelectItem key={season.id} value={season.id.toString()}>
+                    {season.name} ({competitionName(season.competition)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <div className="grid gap-2 flex-1">
             <Label>From Date</Label>
             <Popover>
@@ -192,7 +220,9 @@ function FixtureSyncSection() {
 export default function AdminDashboard() {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [activeTab, setActiveTab] = useState("season");
+  // Seasons and fixture syncs are site-wide, so organisers start on their rounds
+  const isSuperAdmin = hasRole(user, "super_admin");
+  const [activeTab, setActiveTab] = useState(isSuperAdmin ? "season" : "round");
 
   // Get current active season/round/gameweek
   const { data: current, isLoading } = useQuery<CurrentData>({
@@ -212,12 +242,18 @@ export default function AdminDashboard() {
     enabled: !!selectedSeasonId,
   });
 
+  // Leagues a round can be created for; rounds without one belong to the public game
+  const { data: leagues } = useQuery<League[]>({
+    queryKey: ["/api/leagues/all"],
+  });
+
 
   // Form setup
   const seasonForm = useForm({
     resolver: zodResolver(insertSeasonSchema),
     defaultValues: {
       name: "",
+      competition: "PL",
       startDate: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
       endDate: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
       isActive: true,
@@ -228,11 +264,16 @@ export default function AdminDashboard() {
     resolver: zodResolver(insertRoundSchema),
     defaultValues: {
       seasonId: undefined,
+      leagueId: null as number | null,
       number: 1,
       isActive: true,
+      rules: parseRoundRules({}),
     },
   });
 
+  // Away pick weeks are typed as a comma separated list of game week numbers
+  const [awayPickWeeks, setAwayPickWeeks] = useState("");
+
   const gameWeekForm = useForm({
     resolver: zodResolver(insertGameWeekSchema),
     defaultValues: {
@@ -258,7 +299,7 @@ export default function AdminDashboard() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/current"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/seasons"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/seasons/all"] });
       toast({
         title: "Season created",
         description: "The new season has been created successfully",
@@ -272,29 +313,45 @@ export default function AdminDashboard() {
       const formattedData = {
         ...data,
         seasonId: parseInt(data.seasonId),
+        leagueId: data.leagueId ?? null,
         number: parseInt(data.number),
         isActive: !!data.isActive,
+        rules: {
+          ...data.rules,
+          lives: parseInt(data.rules.lives),
+          awayPickGameWeeks: awayPickWeeks
+            .split(",")
+            .map((week) => parseInt(week.trim()))
+            .filter((week) => !isNaN(week)),
+        },
       };
       const res = await apiRequest("POST", "/api/rounds", formattedData);
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/current"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rounds/all"] });
       toast({
         title: "Round created",
         description: "The new round has been created successfully",
       });
       roundForm.reset();
+      setAwayPickWeeks("");
     },
   });
 
+  // Fixtures are only "available" within the league the selected round belongs to
+  const selectedRoundId = gameWeekForm.watch("roundId");
+  const selectedLeagueId = rounds?.find((round) => round.id === Number(selectedRoundId))?.leagueId ?? null;
+
   // Update the fixtures query to include seasonId
   const { data: availableFixtures, isLoading: fixturesLoading } = useQuery<APIFixture[]>({
-    queryKey: ["/api/fixtures/available", selectedSeasonId],
+    queryKey: ["/api/fixtures/available", selectedSeasonId, selectedLeagueId],
     enabled: !!selectedSeasonId,
     queryFn: async () => {
       console.log('Fetching fixtures with seasonId:', selectedSeasonId);
-      const res = await fetch(`/api/fixtures/available?seasonId=${selectedSeasonId}`, {
+      const leagueParam = selectedLeagueId ? `&leagueId=${selectedLeagueId}` : "";
+      const res = await fetch(`/api/fixtures/available?seasonId=${selectedSeasonId}${leagueParam}`, {
         credentials: 'include'
       });
       if (!res.ok) {
@@ -355,7 +412,7 @@ export default function AdminDashboard() {
     );
   }
 
-  if (!user?.isAdmin) {
+  if (!hasRole(user, "organiser")) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <Card>
@@ -392,11 +449,11 @@ export default function AdminDashboard() {
           </CardContent>
         </Card>
 
-        <FixtureSyncSection />
+        {isSuperAdmin && <FixtureSyncSection />}
 
         <Tabs defaultValue={activeTab} value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-3">
-            <TabsTrigger value="season">Season</TabsTrigger>
+          <TabsList className={cn("grid w-full", isSuperAdmin ? "grid-cols-3" : "grid-cols-2")}>
+            {isSuperAdmin && <TabsTrigger value="season">Season</TabsTrigger>}
             <TabsTrigger value="round">Round</TabsTrigger>
             <TabsTrigger value="gameweek">Game Week</TabsTrigger>
           </TabsList>
@@ -422,6 +479,30 @@ export default function AdminDashboard() {
                         </FormItem>
                       )}
                     />
+                    <FormField
+                      control={seasonForm.control}
+                      name="competition"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Competition</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select a competition" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {competitions.map((competition) => (
+                                <SelectItem key={competition.code} value={competition.code}>
+                                  {competition.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     <FormField
                       control={seasonForm.control}
                       name="startDate"
@@ -483,7 +564,35 @@ export default function AdminDashboard() {
                             <SelectContent>
                               {seasons?.map((season) => (
                                 <SelectItem key={season.id} value={season.id.toString()}>
-                                  {season.name}
+                                  {season.name} ({competitionName(season.competition)})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={roundForm.control}
+                      name="leagueId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>League</FormLabel>
+                          <Select
+                            value={field.value ? field.value.toString() : "public"}
+                            onValueChange={(value) => field.onChange(value === "public" ? null : parseInt(value))}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Public game" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="public">Public game</SelectItem>
+                              {leagues?.map((league) => (
+                                <SelectItem key={league.id} value={league.id.toString()}>
+                                  {league.name}
                                 </SelectItem>
                               ))}
                             </SelectContent>
@@ -505,6 +614,118 @@ export default function AdminDashboard() {
                         </FormItem>
                       )}
                     />
+                    <div className="space-y-3 rounded-md border p-4">
+                      <p className="text-sm font-medium">Rules</p>
+                      <FormField
+                        control={roundForm.control}
+                        name="rules.drawCountsAsLoss"
+                        render={({ field }) => (
+                          <FormItem className="flex items-center gap-2 space-y-0">
+                            <FormControl>
+                              <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(!!checked)} />
+                            </FormControl>
+                            <FormLabel className="font-normal">A draw counts as a loss</FormLabel>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={roundForm.control}
+                        name="rules.allowTeamReuse"
+                        render={({ field }) => (
+                          <FormItem className="flex items-center gap-2 space-y-0">
+                            <FormControl>
+                              <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(!!checked)} />
+                            </FormControl>
+                            <FormLabel className="font-normal">Teams can be picked more than once</FormLabel>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={roundForm.control}
+                        name="rules.lives"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Lives per player</FormLabel>
+                            <FormControl>
+                              <Input type="number" min={1} max={10} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={roundForm.control}
+                        name="rules.missedPick"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Missed pick</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="eliminate">Player is eliminated</SelectItem>
+                                <SelectItem value="auto_pick">Player is given a team</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                      {roundForm.watch("rules.missedPick") === "auto_pick" && (
+                        <FormField
+                          control={roundForm.control}
+                          name="rules.autoPickStrategy"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Auto-pick team</FormLabel>
+                              <Select value={field.value} onValueChange={field.onChange}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="alphabetical">First available alphabetically</SelectItem>
+                                  <SelectItem value="lowest_ranked">Lowest ranked available</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                      <FormField
+                        control={roundForm.control}
+                        name="rules.postponedPick"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Pick on a postponed or cancelled fixture</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="repick">Player picks again</SelectItem>
+                                <SelectItem value="survive">Player survives</SelectItem>
+                                <SelectItem value="void">Player survives and gets the team back</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </FormItem>
+                        )}
+                      />
+                      <div className="space-y-2">
+                        <Label htmlFor="away-pick-weeks">Away pick game weeks</Label>
+                        <Input
+                          id="away-pick-weeks"
+                          placeholder="e.g. 3, 6"
+                          value={awayPickWeeks}
+                          onChange={(e) => setAwayPickWeeks(e.target.value)}
+                        />
+                      </div>
+                    </div>
                     <Button type="submit" disabled={createRoundMutation.isPending}>
                       Create Round
                     </Button>
@@ -549,7 +770,7 @@ export default function AdminDashboard() {
                             <SelectContent>
                               {seasons?.map((season) => (
                                 <SelectItem key={season.id} value={season.id.toString()}>
-                                  {season.name}
+                                  {season.name} ({competitionName(season.competition)})
                                 </SelectItem>
                               ))}
                             </SelectContent>
@@ -578,6 +799,7 @@ export default function AdminDashboard() {
                               {rounds?.map((round) => (
                                 <SelectItem key={round.id} value={round.id.toString()}>
                                   Round {round.number}
+                                  {round.leagueId && ` (${leagues?.find((league) => league.id === round.leagueId)?.name ?? "League"})`}
                                 </SelectItem>
                               ))}
                             </SelectContent>
@@ -1,11 +1,29 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { format } from "date-fns";
-import { Loader2 } from "lucide-react";
+import { Loader2, Lock, Pencil } from "lucide-react";
 import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  hasRole, fixtureStatuses, fixtureWinners,
+  type FixtureResult, type FixtureStatus,
+} from "@shared/schema";
+
+const NO_WINNER = "none";
+
+const winnerLabels: Record<typeof fixtureWinners[number], string> = {
+  HOME_TEAM: "Home win",
+  AWAY_TEAM: "Away win",
+  DRAW: "Draw",
+};
 
 interface TeamData {
   id: number;
@@ -25,15 +43,134 @@ interface Fixture {
   status: string;
   selected: boolean;
   winner: string | null;
+  locked: boolean;
   season_id: number;
   homeTeam: TeamData;
   awayTeam: TeamData;
 }
 
+function parseScore(value: string) {
+  return value === "" ? null : parseInt(value);
+}
+
+function EditResultDialog({ fixture, onClose }: { fixture: Fixture; onClose: () => void }) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState(fixture.status);
+  const [homeScore, setHomeScore] = useState(fixture.home_score?.toString() ?? "");
+  const [awayScore, setAwayScore] = useState(fixture.away_score?.toString() ?? "");
+  const [winner, setWinner] = useState(fixture.winner ?? NO_WINNER);
+  const [locked, setLocked] = useState(fixture.locked);
+
+  const resultMutation = useMutation({
+    mutationFn: async (result: FixtureResult) => {
+      const res = await apiRequest("PUT", `/api/fixtures/${fixture.id}/result`, result);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/fixtures/all"] });
+      toast({
+        title: "Result updated",
+        description: `${fixture.homeTeam.name} vs ${fixture.awayTeam.name} has been saved and picks resettled`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update result",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isFinished = status === "FINISHED";
+
+  const handleSave = () => {
+    resultMutation.mutate({
+      status: status as FixtureStatus,
+      homeScore: isFinished ? parseScore(homeScore) : null,
+      awayScore: isFinished ? parseScore(awayScore) : null,
+      winner: isFinished && winner !== NO_WINNER ? winner as FixtureResult["winner"] : null,
+      locked,
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{fixture.homeTeam.name} vs {fixture.awayTeam.name}</DialogTitle>
+          <DialogDescription>
+            Picks on this fixture are resettled when you save. Lock the result to stop the fixture sync overwriting it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {fixtureStatuses.map((value) => (
+                  <SelectItem key={value} value={value}>{value.replace("_", " ")}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {isFinished && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>{fixture.homeTeam.tla} score</Label>
+                  <Input type="number" min={0} value={homeScore} onChange={(e) => setHomeScore(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>{fixture.awayTeam.tla} score</Label>
+                  <Input type="number" min={0} value={awayScore} onChange={(e) => setAwayScore(e.target.value)} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Winner</Label>
+                <Select value={winner} onValueChange={setWinner}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_WINNER}>From the score</SelectItem>
+                    {fixtureWinners.map((value) => (
+                      <SelectItem key={value} value={value}>{winnerLabels[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="fixture-locked">Locked</Label>
+              <p className="text-sm text-muted-foreground">Keep this result when fixtures are synced</p>
+            </div>
+            <Switch id="fixture-locked" checked={locked} onCheckedChange={setLocked} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={resultMutation.isPending}>
+            {resultMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Result
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 export default function FixturesPage() {
   const { user } = useAuth();
   const [statusFilter, setStatusFilter] = useState<string>("ALL");
   const [searchTerm, setSearchTerm] = useState("");
+  const [editing, setEditing] = useState<Fixture | null>(null);
 
   const { data: fixtures, isLoading: fixturesLoading } = useQuery<Fixture[]>({
     queryKey: ["/api/fixtures/all"],
@@ -47,7 +184,7 @@ export default function FixturesPage() {
     );
   }
 
-  if (!user?.isAdmin) {
+  if (!hasRole(user, "super_admin")) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <Card>
@@ -104,6 +241,7 @@ export default function FixturesPage() {
                     <SelectItem value="LIVE">Live</SelectItem>
                     <SelectItem value="FINISHED">Finished</SelectItem>
                     <SelectItem value="POSTPONED">Postponed</SelectItem>
+                    <SelectItem value="CANCELLED">Cancelled</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -119,14 +257,28 @@ export default function FixturesPage() {
                   <span className="text-sm text-muted-foreground">
                     {format(new Date(fixture.kickoff), "MMM d, HH:mm")}
                   </span>
-                  <span className={
-                    fixture.status === "LIVE" ? "text-green-500 font-medium text-sm" :
-                    fixture.status === "FINISHED" ? "text-muted-foreground text-sm" :
-                    fixture.status === "POSTPONED" ? "text-red-500 text-sm" :
-                    "text-foreground text-sm"
-                  }>
-                    {fixture.status}
-                  </span>
+                  <div className="flex items-center gap-2">
+                    {fixture.locked && (
+                      <Lock className="h-3.5 w-3.5 text-muted-foreground" aria-label="Result locked" />
+                    )}
+                    <span className={
+                      fixture.status === "LIVE" ? "text-green-500 font-medium text-sm" :
+                      fixture.status === "FINISHED" ? "text-muted-foreground text-sm" :
+                      fixture.status === "POSTPONED" || fixture.status === "CANCELLED" ? "text-red-500 text-sm" :
+                      "text-foreground text-sm"
+                    }>
+                      {fixture.status}
+                    </span>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      onClick={() => setEditing(fixture)}
+                      aria-label="Edit result"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
                 </div>
 
                 <div className="flex items-center justify-between gap-4">
@@ -165,6 +317,8 @@ export default function FixturesPage() {
           ))}
         </div>
       </div>
+
+      {editing && <EditResultDialog fixture={editing} onClose={() => setEditing(null)} />}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { format, formatDistanceStrict } from "date-fns";
+import { Loader2, RefreshCw } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { hasRole, type JobRun } from "@shared/schema";
+
+export default function JobsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: runs, isLoading } = useQuery<JobRun[]>({
+    queryKey: ["/api/job-runs"],
+    refetchInterval: 30 * 1000,
+  });
+
+  const syncNowMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/fixtures/sync", {});
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/job-runs"] });
+      toast({
+        title: "Fixtures synced",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/job-runs"] });
+      toast({
+        title: "Sync failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!hasRole(user, "super_admin")) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-destructive">Admin access required</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="max-w-[1400px] mx-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <h1 className="text-3xl font-bold bg-gradient-to-br from-primary to-primary/80 bg-clip-text text-transparent">
+            Background Jobs
+          </h1>
+          <Button onClick={() => syncNowMutation.mutate()} disabled={syncNowMutation.isPending}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${syncNowMutation.isPending ? "animate-spin" : ""}`} />
+            Sync Now
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Runs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!runs || runs.length === 0 ? (
+              <p className="text-muted-foreground">No jobs have run yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Job</TableHead>
+                    <TableHead>Trigger</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Duration</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Inserted</TableHead>
+                    <TableHead className="text-right">Updated</TableHead>
+                    <TableHead className="text-right">Failed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map((run) => (
+                    <TableRow key={run.id}>
+                      <TableCell className="font-medium">{run.job}</TableCell>
+                      <TableCell className="capitalize">{run.trigger}</TableCell>
+                      <TableCell>{format(new Date(run.startedAt), "MMM d, HH:mm:ss")}</TableCell>
+                      <TableCell>
+                        {run.finishedAt ? formatDistanceStrict(new Date(run.finishedAt), new Date(run.startedAt)) : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <span
+                          className={
+                            run.status === "succeeded" ? "text-green-500" :
+                            run.status === "failed" ? "text-red-500" :
+                            "text-muted-foreground"
+                          }
+                          title={run.error ?? undefined}
+                        >
+                          {run.status}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right">{run.inserted}</TableCell>
+                      <TableCell className="text-right">{run.updated}</TableCell>
+                      <TableCell className="text-right">{run.failed}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
 import { motion } from "framer-motion";
+import { hasRole } from "@shared/schema";
 
 interface TeamData {
   id: number;
@@ -133,7 +134,7 @@ export default function ManageFixturesPage() {
     );
   }
 
-  if (!user?.isAdmin) {
+  if (!hasRole(user, "super_admin")) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <Card>
@@ -8,10 +8,12 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { useState } from "react";
+import { hasRole, competitions } from "@shared/schema";
 
 interface Season {
   id: number;
   name: string;
+  competition: string;
   isActive: boolean;
 }
 
@@ -177,7 +179,7 @@ export default function ManagePage() {
     );
   }
 
-  if (!user?.isAdmin) {
+  if (!hasRole(user, "organiser")) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <Card>
@@ -218,7 +220,9 @@ export default function ManagePage() {
                     <Label htmlFor={`season-${season.id}`}>{season.name}</Label>
                   </div>
                   {season.isActive && (
-                    <span className="text-sm text-primary font-medium">Currently Active</span>
+                    <span className="text-sm text-primary font-medium">
+                      Active for {competitions.find((c) => c.code === season.competition)?.name ?? season.competition}
+                    </span>
                   )}
                 </div>
               ))}
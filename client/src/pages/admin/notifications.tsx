@@ -0,0 +1,172 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  hasRole, notificationTypeLabels, updateNotificationTemplateSchema,
+  type NotificationTemplateView, type UpdateNotificationTemplate,
+} from "@shared/schema";
+
+function TemplateEditor({ template }: { template: NotificationTemplateView }) {
+  const { toast } = useToast();
+
+  const form = useForm<UpdateNotificationTemplate>({
+    resolver: zodResolver(updateNotificationTemplateSchema),
+    defaultValues: { subject: template.subject, body: template.body },
+  });
+
+  useEffect(() => {
+    form.reset({ subject: template.subject, body: template.body });
+  }, [template.subject, template.body]);
+
+  const onSaved = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notification-templates"] });
+    toast({ title, description: notificationTypeLabels[template.type] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Failed to update template",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: UpdateNotificationTemplate) => {
+      const res = await apiRequest("PUT", `/api/notification-templates/${template.type}`, data);
+      return res.json();
+    },
+    onSuccess: () => onSaved("Template saved"),
+    onError,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/notification-templates/${template.type}`);
+      return res.json();
+    },
+    onSuccess: () => onSaved("Template reset to default"),
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {notificationTypeLabels[template.type]}
+          {template.isCustom && (
+            <span className="text-xs px-2 py-0.5 rounded-full bg-primary/10 text-primary font-normal">Customised</span>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Placeholders: {template.variables.map((name) => `{{${name}}}`).join(", ")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="subject"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Subject</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="body"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Body</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} rows={8} className="font-mono text-sm" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-2">
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+              {template.isCustom && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => resetMutation.mutate()}
+                  disabled={resetMutation.isPending}
+                >
+                  Reset to Default
+                </Button>
+              )}
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function NotificationsPage() {
+  const { user } = useAuth();
+
+  const { data: templates, isLoading } = useQuery<NotificationTemplateView[]>({
+    queryKey: ["/api/notification-templates"],
+    enabled: hasRole(user, "super_admin"),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!hasRole(user, "super_admin")) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-destructive">Admin access required</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="max-w-[1400px] mx-auto space-y-6">
+        <h1 className="text-3xl font-bold bg-gradient-to-br from-primary to-primary/80 bg-clip-text text-transparent">
+          Email Templates
+        </h1>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {templates?.map((template) => (
+            <TemplateEditor key={template.type} template={template} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
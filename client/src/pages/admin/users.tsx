@@ -0,0 +1,290 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Search } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import {
+  hasRole, userRoles, userRoleLabels,
+  type PublicUser, type UserRole, type UserRoundEntry,
+} from "@shared/schema";
+
+function RoundEntriesDialog({ user, onClose }: { user: PublicUser; onClose: () => void }) {
+  const { toast } = useToast();
+
+  const { data: entries, isLoading } = useQuery<UserRoundEntry[]>({
+    queryKey: [`/api/admin/users/${user.id}/entries`],
+  });
+
+  const reinstateMutation = useMutation({
+    mutationFn: async (roundId: number) => {
+      const res = await apiRequest("POST", `/api/admin/users/${user.id}/entries/${roundId}/reinstate`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/users/${user.id}/entries`] });
+      toast({
+        title: "Player reinstated",
+        description: `${user.displayName || user.username} is back in the round`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reinstate player",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Rounds entered by {user.displayName || user.username}</DialogTitle>
+          <DialogDescription>
+            Reinstating puts the player back in the round with the full lives its rules allow.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : !entries || entries.length === 0 ? (
+          <p className="text-muted-foreground">This player hasn't entered any rounds</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Round</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Lives</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell>
+                    Round {entry.round.number}
+                    {entry.round.leagueId !== null && (
+                      <span className="text-xs text-muted-foreground ml-1">(league)</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="capitalize">
+                    {entry.status}
+                    {entry.eliminationReason && (
+                      <span className="text-xs text-muted-foreground ml-1">({entry.eliminationReason.replace("_", " ")})</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{entry.livesRemaining}</TableCell>
+                  <TableCell className="text-right">
+                    {entry.status === "eliminated" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => reinstateMutation.mutate(entry.roundId)}
+                        disabled={reinstateMutation.isPending}
+                      >
+                        Reinstate
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function UsersPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [entriesUser, setEntriesUser] = useState<PublicUser | null>(null);
+
+  const { data: users, isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/admin/users"],
+    enabled: hasRole(user, "super_admin"),
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: UserRole }) => {
+      const res = await apiRequest("PUT", `/api/admin/users/${userId}/role`, { role });
+      return res.json();
+    },
+    onSuccess: (updated: PublicUser) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Role updated",
+        description: `${updated.username} is now a ${userRoleLabels[updated.role].toLowerCase()}`,
+      });
+    },
+    onError: onError("Failed to update role"),
+  });
+
+  const accessMutation = useMutation({
+    mutationFn: async ({ userId, disable }: { userId: number; disable: boolean }) => {
+      const res = await apiRequest("POST", `/api/admin/users/${userId}/${disable ? "disable" : "enable"}`);
+      return res.json();
+    },
+    onSuccess: (updated: PublicUser) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: updated.disabledAt ? "Account disabled" : "Account enabled",
+        description: updated.disabledAt
+          ? `${updated.username} has been signed out and can't log in`
+          : `${updated.username} can log in again`,
+      });
+    },
+    onError: onError("Failed to change account access"),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!hasRole(user, "super_admin")) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-destructive">Admin access required</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const query = search.trim().toLowerCase();
+  const filtered = (users ?? []).filter((u) =>
+    !query ||
+    u.username.toLowerCase().includes(query) ||
+    u.email.toLowerCase().includes(query) ||
+    (u.displayName?.toLowerCase().includes(query) ?? false)
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="max-w-[1400px] mx-auto space-y-6">
+        <div className="flex justify-between items-center">
+          <h1 className="text-3xl font-bold bg-gradient-to-br from-primary to-primary/80 bg-clip-text text-transparent">
+            Users
+          </h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Accounts</CardTitle>
+            <CardDescription>
+              League organisers can run rounds in leagues they own. Super admins manage everything.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="relative max-w-sm">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name or email"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+            {filtered.length === 0 ? (
+              <p className="text-muted-foreground">No accounts found</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filtered.map((account) => {
+                    const isSelf = account.id === user?.id;
+                    return (
+                      <TableRow key={account.id}>
+                        <TableCell className="font-medium">
+                          {account.displayName || account.username}
+                          {account.displayName && (
+                            <span className="text-xs text-muted-foreground ml-1">@{account.username}</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {account.email}
+                          {!account.emailVerifiedAt && (
+                            <span className="text-xs text-muted-foreground ml-1">(unconfirmed)</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={account.role}
+                            onValueChange={(role) => roleMutation.mutate({ userId: account.id, role: role as UserRole })}
+                            disabled={isSelf || roleMutation.isPending}
+                          >
+                            <SelectTrigger className="w-44">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {userRoles.map((role) => (
+                                <SelectItem key={role} value={role}>
+                                  {userRoleLabels[role]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <span className={cn(account.disabledAt ? "text-red-500" : "text-green-500")}>
+                            {account.disabledAt ? "Disabled" : "Active"}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button size="sm" variant="outline" onClick={() => setEntriesUser(account)}>
+                            Rounds
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant={account.disabledAt ? "outline" : "destructive"}
+                            onClick={() => accessMutation.mutate({ userId: account.id, disable: !account.disabledAt })}
+                            disabled={isSelf || accessMutation.isPending}
+                          >
+                            {account.disabledAt ? "Enable" : "Disable"}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {entriesUser && <RoundEntriesDialog user={entriesUser} onClose={() => setEntriesUser(null)} />}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useEffect } from "react";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
@@ -7,7 +7,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { insertUserSchema } from "@shared/schema";
+import { hasRole, loginSchema, registerUserSchema, type LoginUser, type RegisterUser } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
 import { Trophy } from "lucide-react"; // Fixed import
 
@@ -18,16 +18,18 @@ export default function AuthPage() {
 
   useEffect(() => {
     if (user) {
-      setLocation(user.isAdmin ? "/admin" : "/");
+      setLocation(hasRole(user, "super_admin") ? "/admin" : "/");
     }
   }, [user, setLocation]);
 
-  const loginForm = useForm({
-    resolver: zodResolver(insertUserSchema.pick({ username: true, password: true })),
+  const loginForm = useForm<LoginUser>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" },
   });
 
-  const registerForm = useForm({
-    resolver: zodResolver(insertUserSchema),
+  const registerForm = useForm<RegisterUser>({
+    resolver: zodResolver(registerUserSchema),
+    defaultValues: { username: "", email: "", password: "" },
   });
 
   return (
@@ -88,6 +90,11 @@ export default function AuthPage() {
                     >
                       Login
                     </Button>
+                    <p className="text-center text-sm">
+                      <Link href="/forgot-password" className="text-primary hover:underline">
+                        Forgot your password?
+                      </Link>
+                    </p>
                   </div>
                 </form>
               </Form>
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { forgotPasswordSchema } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, Loader2 } from "lucide-react";
+
+export default function ForgotPasswordPage() {
+  const { toast } = useToast();
+  const [message, setMessage] = useState<string>();
+
+  const form = useForm<{ email: string }>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: "" },
+  });
+
+  const forgotMutation = useMutation({
+    mutationFn: async (data: { email: string }) => {
+      const res = await apiRequest("POST", "/api/password/forgot", data);
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => setMessage(data.message),
+    onError: (error: Error) => {
+      toast({
+        title: "Something went wrong",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/10 to-primary/5 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <div className="flex items-center justify-center gap-2 mb-2">
+            <KeyRound className="h-6 w-6 text-primary" />
+            <h1 className="text-2xl font-bold text-center bg-gradient-to-br from-primary to-primary/80 bg-clip-text text-transparent">
+              Forgot Password
+            </h1>
+          </div>
+          <p className="text-center text-sm text-muted-foreground">
+            Enter the email address on your account and we'll send you a reset link
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {message ? (
+            <p className="text-center">{message}</p>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => forgotMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={forgotMutation.isPending}>
+                  {forgotMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Send Reset Link
+                </Button>
+              </form>
+            </Form>
+          )}
+          <p className="text-center text-sm">
+            <Link href="/auth" className="text-primary hover:underline">Back to login</Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
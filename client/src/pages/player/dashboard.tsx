@@ -2,16 +2,21 @@ import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
 import { Form, FormControl, FormField, FormItem, FormLabel } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
-import { insertPickSchema, CurrentData, Pick as PickType } from "@shared/schema";
-import { Loader2, Trophy } from "lucide-react";
+import {
+  insertPickSchema, parseRoundRules, isFixtureCalledOff, isFixtureInPlay, CurrentData,
+  type GameWeekPicks, type LiveProjection, type LiveSurvival, type RoundRules,
+} from "@shared/schema";
+import { Loader2, Trophy, EyeOff, Radio } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useState } from "react";
 import { motion } from "framer-motion";
+import { PlayerBadge } from "@/components/player-badge";
 
 interface AvailableTeam {
   id: number;
@@ -22,10 +27,75 @@ interface AvailableTeam {
   isAvailable: boolean;
 }
 
+interface PickFormValues {
+  gameWeekId?: number;
+  teamId?: number;
+  fixtureId?: number;
+}
+
+// Plain-English summary of the rules the current round is played under
+function describeRules(rules: RoundRules): string {
+  const failure = rules.drawCountsAsLoss ? "loses or draws" : "loses";
+  const penalty = rules.lives > 1 ? `you lose one of your ${rules.lives} lives` : "you're out";
+  const parts = [`Choose wisely - once a team ${failure}, ${penalty}!`];
+
+  if (!rules.allowTeamReuse) parts.push("Each team can only be picked once per round.");
+  if (rules.awayPickGameWeeks.length > 0) {
+    parts.push(`Game week ${rules.awayPickGameWeeks.join(", ")} picks must be playing away.`);
+  }
+  if (rules.missedPick === "auto_pick") parts.push("Miss the deadline and you'll be given a team.");
+  if (rules.postponedPick === "repick") parts.push("If your match is postponed you can pick again.");
+  if (rules.postponedPick === "void") parts.push("If your match is postponed you survive and can use that team again.");
+
+  return parts.join(" ");
+}
+
+const projectionStyles: Record<LiveProjection, { label: string; className: string }> = {
+  surviving: { label: "Currently surviving", className: "bg-green-500/10 text-green-600" },
+  at_risk: { label: "Level - at risk", className: "bg-amber-500/10 text-amber-600" },
+  eliminated: { label: "Currently going out", className: "bg-red-500/10 text-red-500" },
+};
+
+function projectionLabel(projection: LiveProjection, livesRemaining: number | null) {
+  // With lives to spare a failing pick only costs a life
+  if (projection !== "surviving" && (livesRemaining ?? 0) > 1) {
+    return projection === "at_risk" ? "Level - a life at risk" : "Currently losing a life";
+  }
+  return projectionStyles[projection].label;
+}
+
+function LiveSurvivalCard({ survival }: { survival: LiveSurvival }) {
+  return (
+    <Card className="mb-4 md:mb-6 border-green-500/30">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Radio className="h-5 w-5 text-green-500 animate-pulse" />
+          Live
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {survival.projection && (
+          <span className={`inline-block text-sm font-medium px-3 py-1 rounded-full ${projectionStyles[survival.projection].className}`}>
+            {projectionLabel(survival.projection, survival.livesRemaining)}
+          </span>
+        )}
+        {survival.isRevealed && survival.inPlayCount > 0 && (
+          <p className="text-sm text-muted-foreground">
+            If the scores stay as they are, {survival.projectedOut} of {survival.aliveCount} players{" "}
+            {survival.projectedOut === 1 ? "goes" : "go"} out
+            {survival.atRisk > 0 && ` and ${survival.atRisk} more ${survival.atRisk === 1 ? "is" : "are"} level and at risk`}.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function PlayerDashboard() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [viewMode, setViewMode] = useState<'card' | 'list'>('card');
+  const [isChangingPick, setIsChangingPick] = useState(false);
 
   // Get current game week info
   const { data: current, isLoading: currentLoading } = useQuery<CurrentData>({
@@ -49,6 +119,8 @@ export default function PlayerDashboard() {
     }
   });
 
+  const gameWeek = current?.gameWeek;
+
   // Get available teams
   const { data: teams, isLoading: teamsLoading } = useQuery<AvailableTeam[]>({
     queryKey: ["/api/available-teams"],
@@ -62,24 +134,34 @@ export default function PlayerDashboard() {
   });
 
   // Get current game week picks
-  const { data: picks, isLoading: picksLoading } = useQuery<PickType[]>({
-    queryKey: ["/api/game-weeks", current?.gameWeek?.id, "picks"],
+  const { data: gameWeekPicks, isLoading: picksLoading } = useQuery<GameWeekPicks>({
+    queryKey: [`/api/game-weeks/${current?.gameWeek?.id}/picks`],
     enabled: !!current?.gameWeek?.id,
   });
 
+  // Projections only mean anything while a match is being played
+  const anyInPlay = !!fixtures?.some(isFixtureInPlay);
+  const { data: liveSurvival } = useQuery<LiveSurvival>({
+    queryKey: [`/api/game-weeks/${gameWeek?.id}/live`],
+    enabled: !!gameWeek?.id && anyInPlay,
+  });
+
+  const picks = gameWeekPicks?.picks;
+  const userPick = picks?.find((p) => p.userId === user?.id);
+
   // Find the fixture for a team
   const findFixtureForTeam = (teamId: number) => {
     if (!fixtures) return null;
     
-    // Look for the team in either home or away team
+    // Look for the team in either home or away team, skipping matches that won't be played
     return fixtures.find(fixture => 
-      fixture.homeTeam.id === teamId || fixture.awayTeam.id === teamId
+      !isFixtureCalledOff(fixture) && (fixture.homeTeam.id === teamId || fixture.awayTeam.id === teamId)
     );
   };
 
   // Form setup
-  const pickForm = useForm({
-    resolver: zodResolver(insertPickSchema.omit({ userId: true })),
+  const pickForm = useForm<PickFormValues>({
+    resolver: zodResolver(insertPickSchema.pick({ teamId: true })),
     defaultValues: {
       gameWeekId: current?.gameWeek?.id,
       teamId: undefined,
@@ -87,7 +169,7 @@ export default function PlayerDashboard() {
     },
   });
 
-  // Create pick mutation
+  // Create pick mutation, or change the existing pick when in the change flow
   const createPickMutation = useMutation({
     mutationFn: async (data: any) => {
       // Find the fixture for the selected team
@@ -98,20 +180,26 @@ export default function PlayerDashboard() {
         throw new Error('No fixture found for the selected team');
       }
       
-      const res = await apiRequest("POST", "/api/picks", {
-        teamId,
-        fixtureId: fixture.id,
-        gameWeekId: current?.gameWeek?.id,
-      });
+      const res = isChangingPick && userPick
+        ? await apiRequest("PUT", `/api/picks/${userPick.id}`, {
+            teamId,
+            fixtureId: fixture.id,
+          })
+        : await apiRequest("POST", "/api/picks", {
+            teamId,
+            fixtureId: fixture.id,
+            gameWeekId: current?.gameWeek?.id,
+          });
       return res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/game-weeks", current?.gameWeek?.id, "picks"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/game-weeks/${current?.gameWeek?.id}/picks`] });
       queryClient.invalidateQueries({ queryKey: ["/api/available-teams"] });
       toast({
-        title: "Pick submitted",
+        title: isChangingPick ? "Pick changed" : "Pick submitted",
         description: "Your team selection has been saved",
       });
+      setIsChangingPick(false);
       pickForm.reset();
     },
     onError: (error: Error) => {
@@ -123,6 +211,29 @@ export default function PlayerDashboard() {
     },
   });
 
+  // Withdraw pick mutation
+  const withdrawPickMutation = useMutation({
+    mutationFn: async (pickId: number) => {
+      await apiRequest("DELETE", `/api/picks/${pickId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/game-weeks/${current?.gameWeek?.id}/picks`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/available-teams"] });
+      toast({
+        title: "Pick withdrawn",
+        description: "You can make a new pick before the deadline",
+      });
+      setIsChangingPick(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to withdraw pick",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   if (currentLoading || teamsLoading || picksLoading || fixturesLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -131,9 +242,18 @@ export default function PlayerDashboard() {
     );
   }
 
-  const userPick = picks?.find((p: any) => p.userId === user?.id);
-  const deadline = current?.gameWeek?.deadline ? new Date(current.gameWeek.deadline) : new Date();
+  const rules = parseRoundRules(current?.round?.rules);
+  const deadline = gameWeek?.deadline ? new Date(gameWeek.deadline) : new Date();
   const canPick = !userPick && deadline > new Date();
+
+  // A pick can be changed until the deadline or until its fixture kicks off
+  const userPickFixture = userPick ? fixtures?.find(f => f.id === userPick.fixtureId) : undefined;
+  const canChangePick = !!userPick && deadline > new Date() &&
+    (!userPickFixture || new Date(userPickFixture.kickoff) > new Date());
+  // Under the repick rule a pick on a called-off fixture stays open until the week is settled
+  const pickCalledOff = !!userPickFixture && isFixtureCalledOff(userPickFixture);
+  const canRepick = pickCalledOff && !gameWeek?.settledAt && rules.postponedPick === "repick";
+  const showPickForm = canPick || (isChangingPick && (canChangePick || canRepick));
   
   // Sort teams by availability and name
   const sortedTeams = teams?.sort((a, b) => {
@@ -165,7 +285,7 @@ export default function PlayerDashboard() {
             </h1>
           </div>
           <p className="text-muted-foreground ml-1 max-w-2xl">
-            Make your picks and stay in the game. Choose wisely - once a team loses or draws, you're out!
+            Make your picks and stay in the game. {describeRules(rules)}
           </p>
         </motion.div>
 
@@ -179,6 +299,9 @@ export default function PlayerDashboard() {
               <CardTitle className="flex items-center gap-2">
                 <span className="inline-block w-3 h-3 rounded-full bg-primary animate-pulse mr-1"></span>
                 Current Game Week
+                <span className="ml-auto text-sm font-normal text-muted-foreground">
+                  {current?.league?.name ?? "Public game"}
+                </span>
               </CardTitle>
             </CardHeader>
             <CardContent className="pt-5">
@@ -211,11 +334,28 @@ export default function PlayerDashboard() {
           </Card>
         </motion.div>
 
-        {canPick ? (
+        {anyInPlay && liveSurvival && (liveSurvival.projection || liveSurvival.inPlayCount > 0) && (
+          <LiveSurvivalCard survival={liveSurvival} />
+        )}
+
+        {showPickForm ? (
           <Card className="mb-4 md:mb-6">
             <CardHeader className="flex flex-row items-center justify-between">
-              <CardTitle>Make Your Pick</CardTitle>
+              <CardTitle>{isChangingPick ? "Change Your Pick" : "Make Your Pick"}</CardTitle>
               <div className="flex items-center space-x-2">
+                {isChangingPick && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setIsChangingPick(false);
+                      pickForm.reset();
+                    }}
+                    className="h-8 px-2 text-xs"
+                  >
+                    Cancel
+                  </Button>
+                )}
                 <Button
                   variant={viewMode === 'list' ? 'default' : 'outline'}
                   size="sm"
@@ -346,6 +486,8 @@ export default function PlayerDashboard() {
                   >
                     {createPickMutation.isPending ? (
                       <Loader2 className="h-5 w-5 animate-spin" />
+                    ) : isChangingPick ? (
+                      "Change Pick"
                     ) : (
                       "Submit Pick"
                     )}
@@ -369,12 +511,44 @@ export default function PlayerDashboard() {
                   />
                 )}
                 <span className="text-lg">{teams?.find(t => t.id === userPick.teamId)?.name}</span>
+                {userPick.isAutoPick && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-600">Auto-pick</span>
+                )}
                 {userPick.isCorrect !== null && (
                   <span className={`ml-auto font-medium ${userPick.isCorrect ? "text-green-500" : "text-red-500"}`}>
-                    {userPick.isCorrect ? "Won" : "Lost"}
+                    {userPick.isCorrect ? "Survived" : "Lost"}
                   </span>
                 )}
               </div>
+              {pickCalledOff && (
+                <p className="text-sm text-muted-foreground mt-3">
+                  This match has been {userPickFixture.status.toLowerCase()}.{" "}
+                  {canRepick ? "Pick another team before the game week is settled." : "You'll survive this game week."}
+                </p>
+              )}
+              {(canChangePick || canRepick) && (
+                <div className="flex gap-2 mt-4">
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      pickForm.setValue("teamId", userPick.teamId);
+                      setIsChangingPick(true);
+                    }}
+                  >
+                    Change pick
+                  </Button>
+                  {canChangePick && (
+                    <Button
+                      variant="ghost"
+                      className="text-destructive"
+                      disabled={withdrawPickMutation.isPending}
+                      onClick={() => withdrawPickMutation.mutate(userPick.id)}
+                    >
+                      Withdraw
+                    </Button>
+                  )}
+                </div>
+              )}
             </CardContent>
           </Card>
         ) : (
@@ -391,15 +565,36 @@ export default function PlayerDashboard() {
         <Card>
           <CardHeader>
             <CardTitle>All Picks</CardTitle>
+            {gameWeekPicks && (
+              <CardDescription>
+                {gameWeekPicks.pickedCount} of {gameWeekPicks.aliveCount} have picked
+              </CardDescription>
+            )}
           </CardHeader>
           <CardContent>
+            {gameWeekPicks && !gameWeekPicks.isRevealed && (
+              <div className="space-y-3 mb-4">
+                <Progress
+                  value={gameWeekPicks.aliveCount > 0 ? (gameWeekPicks.pickedCount / gameWeekPicks.aliveCount) * 100 : 0}
+                />
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <EyeOff className="h-4 w-4" />
+                  Everyone's picks are revealed once the deadline passes.
+                </p>
+              </div>
+            )}
             <div className="space-y-2">
               {Array.isArray(picks) && picks.length === 0 ? (
-                <p>No picks made yet</p>
+                <p>{gameWeekPicks?.isRevealed ? "No picks made yet" : "You haven't picked yet"}</p>
               ) : (
-                picks?.map((pick: any) => (
+                picks?.map((pick) => (
                   <div key={pick.id} className="flex justify-between items-center p-3 bg-muted/50 rounded-lg">
-                    <span>Player {pick.userId}</span>
+                    <span className="flex items-center">
+                      <PlayerBadge player={pick.player} />
+                      {pick.isAutoPick && (
+                        <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-600">Auto-pick</span>
+                      )}
+                    </span>
                     <div className="flex items-center gap-2">
                       {teams?.find((t) => t.id === pick.teamId)?.crest && (
                         <img 
@@ -412,7 +607,7 @@ export default function PlayerDashboard() {
                     </div>
                     {pick.isCorrect !== null && (
                       <span className={`font-medium ${pick.isCorrect ? "text-green-500" : "text-red-500"}`}>
-                        {pick.isCorrect ? "Won" : "Lost"}
+                        {pick.isCorrect ? "Survived" : "Lost"}
                       </span>
                     )}
                   </div>
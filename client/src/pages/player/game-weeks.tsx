@@ -8,7 +8,7 @@ import { Loader2, Trophy, Calendar, ChevronRight, ChevronDown } from "lucide-rea
 import { useState } from "react";
 import { cn } from "@/lib/utils";
 import { motion, AnimatePresence } from "framer-motion";
-import { Season, Round, GameWeek } from "@shared/schema";
+import { Season, Round, GameWeek, isFixtureInPlay, isFixtureCalledOff } from "@shared/schema";
 
 interface TeamData {
   id: number;
@@ -278,9 +278,12 @@ export default function GameWeeksPage() {
                                                 {fixture.home_score} - {fixture.away_score}
                                               </span>
                                             </div>
-                                          ) : fixture.status === "LIVE" ? (
-                                            <div className="px-3 py-1 rounded bg-green-500/10 border border-green-500/30 min-w-[60px] text-center">
-                                              <span className="font-semibold text-green-500">LIVE</span>
+                                          ) : isFixtureInPlay(fixture) ? (
+                                            <div className="flex items-center gap-1.5 px-3 py-1 rounded bg-green-500/10 border border-green-500/30 min-w-[60px] justify-center">
+                                              <span className="inline-block w-2 h-2 rounded-full bg-green-500 animate-pulse" />
+                                              <span className="font-semibold text-green-500">
+                                                {fixture.home_score ?? 0} - {fixture.away_score ?? 0}
+                                              </span>
                                             </div>
                                           ) : (
                                             <div className="px-3 py-1 rounded bg-primary/5 border border-primary/20 min-w-[60px] text-center">
@@ -305,11 +308,11 @@ export default function GameWeeksPage() {
                                       <span className={cn(
                                         "text-xs font-medium px-2 py-1 rounded-full self-start sm:self-center",
                                         fixture.status === "SCHEDULED" && "bg-amber-500/10 text-amber-500",
-                                        fixture.status === "LIVE" && "bg-green-500/10 text-green-500",
+                                        isFixtureInPlay(fixture) && "bg-green-500/10 text-green-500",
                                         fixture.status === "FINISHED" && "bg-blue-500/10 text-blue-500",
-                                        fixture.status === "POSTPONED" && "bg-red-500/10 text-red-500"
+                                        isFixtureCalledOff(fixture) && "bg-red-500/10 text-red-500"
                                       )}>
-                                        {fixture.status}
+                                        {fixture.status === "PAUSED" ? "HALF TIME" : fixture.status.replace("_", " ")}
                                       </span>
                                     </motion.div>
                                   ))
@@ -0,0 +1,237 @@
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { insertLeagueSchema, joinLeagueSchema, type League, type LeagueSummary } from "@shared/schema";
+import { Loader2, Users, Copy } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { motion } from "framer-motion";
+
+export default function LeaguesPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: leagues, isLoading } = useQuery<LeagueSummary[]>({
+    queryKey: ["/api/leagues"],
+  });
+
+  const createForm = useForm<{ name: string }>({
+    resolver: zodResolver(insertLeagueSchema),
+    defaultValues: { name: "" },
+  });
+
+  const joinForm = useForm<{ inviteCode: string }>({
+    resolver: zodResolver(joinLeagueSchema),
+    defaultValues: { inviteCode: "" },
+  });
+
+  // Creating, joining or switching changes the active league, so refetch everything
+  const onLeagueChanged = (league: League, title: string) => {
+    queryClient.invalidateQueries();
+    toast({
+      title,
+      description: `You are now playing in ${league.name}`,
+    });
+  };
+
+  const createLeagueMutation = useMutation({
+    mutationFn: async (data: { name: string }) => {
+      const res = await apiRequest("POST", "/api/leagues", data);
+      return res.json();
+    },
+    onSuccess: (league: League) => {
+      onLeagueChanged(league, "League created");
+      createForm.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create league",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const joinLeagueMutation = useMutation({
+    mutationFn: async (data: { inviteCode: string }) => {
+      const res = await apiRequest("POST", "/api/leagues/join", data);
+      return res.json();
+    },
+    onSuccess: (league: League) => {
+      onLeagueChanged(league, "League joined");
+      joinForm.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to join league",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const switchLeagueMutation = useMutation({
+    mutationFn: async (league: League) => {
+      await apiRequest("POST", "/api/leagues/active", { leagueId: league.id });
+      return league;
+    },
+    onSuccess: (league: League) => onLeagueChanged(league, "League switched"),
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to switch league",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4 }}
+          className="flex flex-col gap-2 mb-4"
+        >
+          <div className="flex items-center gap-2">
+            <Users className="h-7 w-7 text-primary" />
+            <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-br from-primary to-primary/80 bg-clip-text text-transparent">
+              Leagues
+            </h1>
+          </div>
+          <p className="text-muted-foreground max-w-2xl">
+            Run a private game with your friends, family or office. Share the invite code so others can join.
+          </p>
+        </motion.div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Create a League</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Form {...createForm}>
+                <form onSubmit={createForm.handleSubmit((data) => createLeagueMutation.mutate(data))} className="space-y-4">
+                  <FormField
+                    control={createForm.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>League Name</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" disabled={createLeagueMutation.isPending}>
+                    Create League
+                  </Button>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Join a League</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Form {...joinForm}>
+                <form onSubmit={joinForm.handleSubmit((data) => joinLeagueMutation.mutate(data))} className="space-y-4">
+                  <FormField
+                    control={joinForm.control}
+                    name="inviteCode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Invite Code</FormLabel>
+                        <FormControl>
+                          <Input {...field} className="uppercase" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" disabled={joinLeagueMutation.isPending}>
+                    Join League
+                  </Button>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Leagues</CardTitle>
+            <CardDescription>Switch between leagues here or from the menu bar</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {!leagues || leagues.length === 0 ? (
+                <p className="text-muted-foreground">You haven't joined any leagues yet</p>
+              ) : (
+                leagues.map((league) => (
+                  <div key={league.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 bg-muted/50 rounded-lg">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{league.name}</span>
+                        {league.isOwner && (
+                          <span className="text-xs px-2 py-0.5 rounded-full bg-primary/10 text-primary">Owner</span>
+                        )}
+                      </div>
+                      <span className="text-sm text-muted-foreground">
+                        {league.memberCount} {league.memberCount === 1 ? "player" : "players"}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="font-mono"
+                        onClick={() => {
+                          navigator.clipboard.writeText(league.inviteCode);
+                          toast({ title: "Invite code copied", description: league.inviteCode });
+                        }}
+                      >
+                        {league.inviteCode}
+                        <Copy className="ml-2 h-3 w-3" />
+                      </Button>
+                      {user?.activeLeagueId === league.id ? (
+                        <span className="text-xs px-2 py-1 rounded-full bg-primary/10 text-primary">Active</span>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={switchLeagueMutation.isPending}
+                          onClick={() => switchLeagueMutation.mutate(league)}
+                        >
+                          Switch
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+import { useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useForm } from "react-hook-form";
+import {
+  notificationTypes, notificationTypeLabels,
+  type NotificationType, type PublicProfile, type Team, type UpdateProfile,
+} from "@shared/schema";
+import { Loader2, UserCircle, MailCheck, MailWarning } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { motion } from "framer-motion";
+import { PlayerBadge } from "@/components/player-badge";
+
+interface ProfileFormValues {
+  displayName: string;
+  avatarUrl: string;
+  favouriteTeamId: string;
+}
+
+const NO_TEAM = "none";
+
+function EmailVerification() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/email/verify/resend");
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({ title: "Verification email sent", description: data.message });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send verification email",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email Address</CardTitle>
+        <CardDescription>{user.email}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {user.emailVerifiedAt ? (
+          <p className="flex items-center gap-2 text-sm text-green-600">
+            <MailCheck className="h-4 w-4" />
+            Confirmed
+          </p>
+        ) : (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <p className="flex items-center gap-2 text-sm text-amber-600">
+              <MailWarning className="h-4 w-4" />
+              Not confirmed yet. Check your inbox for the link we sent.
+            </p>
+            <Button variant="outline" onClick={() => resendMutation.mutate()} disabled={resendMutation.isPending}>
+              {resendMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Resend Link
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function NotificationPreferences() {
+  const { toast } = useToast();
+
+  const { data: preferences } = useQuery<{ optOuts: NotificationType[] }>({
+    queryKey: ["/api/profile/notifications"],
+  });
+
+  const updatePreferencesMutation = useMutation({
+    mutationFn: async (optOuts: NotificationType[]) => {
+      const res = await apiRequest("PUT", "/api/profile/notifications", { optOuts });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profile/notifications"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update email settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const optOuts = preferences?.optOuts ?? [];
+  const setEnabled = (type: NotificationType, enabled: boolean) => {
+    updatePreferencesMutation.mutate(enabled ? optOuts.filter((t) => t !== type) : [...optOuts, type]);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email Notifications</CardTitle>
+        <CardDescription>Choose which emails we send you</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {notificationTypes.map((type) => (
+          <div key={type} className="flex items-center justify-between">
+            <Label htmlFor={`notification-${type}`}>{notificationTypeLabels[type]}</Label>
+            <Switch
+              id={`notification-${type}`}
+              checked={!optOuts.includes(type)}
+              onCheckedChange={(checked) => setEnabled(type, checked)}
+              disabled={!preferences || updatePreferencesMutation.isPending}
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ProfilePage() {
+  const { toast } = useToast();
+
+  const { data: profile, isLoading: profileLoading } = useQuery<PublicProfile>({
+    queryKey: ["/api/profile"],
+  });
+
+  const { data: teams, isLoading: teamsLoading } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+  });
+
+  const form = useForm<ProfileFormValues>({
+    defaultValues: { displayName: "", avatarUrl: "", favouriteTeamId: NO_TEAM },
+  });
+
+  useEffect(() => {
+    if (!profile) return;
+    form.reset({
+      // The profile falls back to the username, which should not be saved as a display name
+      displayName: profile.displayName === profile.username ? "" : profile.displayName,
+      avatarUrl: profile.avatarUrl ?? "",
+      favouriteTeamId: profile.favouriteTeam?.id.toString() ?? NO_TEAM,
+    });
+  }, [profile]);
+
+  const updateProfileMutation = useMutation({
+    mutationFn: async (data: UpdateProfile) => {
+      const res = await apiRequest("PUT", "/api/profile", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "Profile updated",
+        description: "Other players will see your new details",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update profile",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (values: ProfileFormValues) => {
+    updateProfileMutation.mutate({
+      displayName: values.displayName || null,
+      avatarUrl: values.avatarUrl || null,
+      favouriteTeamId: values.favouriteTeamId === NO_TEAM ? null : parseInt(values.favouriteTeamId),
+    });
+  };
+
+  if (profileLoading || teamsLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4 }}
+          className="flex flex-col gap-2 mb-4"
+        >
+          <div className="flex items-center gap-2">
+            <UserCircle className="h-7 w-7 text-primary" />
+            <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-br from-primary to-primary/80 bg-clip-text text-transparent">
+              Profile
+            </h1>
+          </div>
+          <p className="text-muted-foreground max-w-2xl">
+            Choose how you appear to other players in picks and standings.
+          </p>
+        </motion.div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Details</CardTitle>
+            {profile && (
+              <CardDescription>
+                Shown as <PlayerBadge player={profile} className="ml-1 align-middle text-foreground" />
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="displayName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Display Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} maxLength={50} placeholder={profile?.username} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="avatarUrl"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Avatar URL</FormLabel>
+                      <FormControl>
+                        <Input {...field} type="url" placeholder="https://" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="favouriteTeamId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Favourite Team</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a team" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_TEAM}>No favourite team</SelectItem>
+                          {teams?.map((team) => (
+                            <SelectItem key={team.id} value={team.id.toString()}>
+                              <div className="flex items-center gap-2">
+                                {team.crest && <img src={team.crest} alt="" className="w-4 h-4" />}
+                                {team.name}
+                              </div>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit" disabled={updateProfileMutation.isPending}>
+                  {updateProfileMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Profile
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <EmailVerification />
+
+        <NotificationPreferences />
+      </div>
+    </div>
+  );
+}
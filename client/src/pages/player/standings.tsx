@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2, ListOrdered } from "lucide-react";
+import { motion } from "framer-motion";
+import { cn } from "@/lib/utils";
+import { PlayerBadge } from "@/components/player-badge";
+import type { Season, SeasonStandings, RoundLeaderboardEntry, EntryStatus } from "@shared/schema";
+
+const statusStyles: Record<EntryStatus, string> = {
+  winner: "bg-amber-500/10 text-amber-600",
+  alive: "bg-green-500/10 text-green-600",
+  eliminated: "bg-red-500/10 text-red-500",
+};
+
+function StatusBadge({ status }: { status: EntryStatus }) {
+  return (
+    <span className={cn("text-xs px-2 py-0.5 rounded-full capitalize", statusStyles[status])}>
+      {status}
+    </span>
+  );
+}
+
+function TeamsUsed({ entry }: { entry: RoundLeaderboardEntry }) {
+  if (entry.picks.length === 0) {
+    return <span className="text-muted-foreground text-sm">-</span>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {entry.picks.map((pick) => (
+        <span
+          key={pick.gameWeekId}
+          title={`Game week ${pick.gameWeekNumber}: ${pick.teamName}${pick.isAutoPick ? " (auto-pick)" : ""}`}
+          className={cn(
+            "flex items-center gap-1 text-xs px-1.5 py-0.5 rounded border",
+            pick.isCorrect === true && "border-green-500/50",
+            pick.isCorrect === false && "border-red-500/50",
+            pick.isAutoPick && "border-dashed"
+          )}
+        >
+          {pick.teamCrest && <img src={pick.teamCrest} alt="" className="w-4 h-4" />}
+          {pick.teamName}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default function StandingsPage() {
+  const [seasonId, setSeasonId] = useState<string>();
+
+  const { data: seasons } = useQuery<Season[]>({
+    queryKey: ["/api/seasons"],
+  });
+
+  const { data: standings, isLoading } = useQuery<SeasonStandings>({
+    queryKey: [seasonId ? `/api/standings?seasonId=${seasonId}` : "/api/standings"],
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4 }}
+          className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-4"
+        >
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center gap-2">
+              <ListOrdered className="h-7 w-7 text-primary" />
+              <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-br from-primary to-primary/80 bg-clip-text text-transparent">
+                Standings
+              </h1>
+            </div>
+            <p className="text-muted-foreground max-w-2xl">
+              See who is still standing in each round and who has done best across the season.
+            </p>
+          </div>
+          <div className="w-full sm:w-56">
+            <Select value={seasonId ?? standings?.season.id.toString()} onValueChange={setSeasonId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a season" />
+              </SelectTrigger>
+              <SelectContent>
+                {seasons?.map((season) => (
+                  <SelectItem key={season.id} value={season.id.toString()}>
+                    {season.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </motion.div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !standings ? (
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-muted-foreground">No standings available</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Tabs defaultValue="rounds">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="rounds">Rounds</TabsTrigger>
+              <TabsTrigger value="season">Season Table</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="rounds" className="space-y-6">
+              {standings.rounds.length === 0 && (
+                <Card>
+                  <CardContent className="pt-6">
+                    <p className="text-muted-foreground">No rounds have been played this season</p>
+                  </CardContent>
+                </Card>
+              )}
+              {[...standings.rounds].reverse().map((leaderboard) => (
+                <Card key={leaderboard.round.id}>
+                  <CardHeader>
+                    <CardTitle>Round {leaderboard.round.number}</CardTitle>
+                    <CardDescription>
+                      {leaderboard.isComplete ? "Complete" : "In progress"} · {leaderboard.settledWeeks} game{" "}
+                      {leaderboard.settledWeeks === 1 ? "week" : "weeks"} played
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {leaderboard.entries.length === 0 ? (
+                      <p className="text-muted-foreground">Nobody has entered this round yet</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Player</TableHead>
+                            <TableHead>Status</TableHead>
+                            <TableHead className="text-right">Weeks Survived</TableHead>
+                            <TableHead>Teams Used</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {leaderboard.entries.map((entry) => (
+                            <TableRow key={entry.userId}>
+                              <TableCell className="font-medium">
+                                <PlayerBadge player={entry.player} />
+                              </TableCell>
+                              <TableCell>
+                                <StatusBadge status={entry.status} />
+                              </TableCell>
+                              <TableCell className="text-right">{entry.weeksSurvived}</TableCell>
+                              <TableCell>
+                                <TeamsUsed entry={entry} />
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </TabsContent>
+
+            <TabsContent value="season">
+              <Card>
+                <CardHeader>
+                  <CardTitle>{standings.season.name}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {standings.table.length === 0 ? (
+                    <p className="text-muted-foreground">No one has played this season yet</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-12">#</TableHead>
+                          <TableHead>Player</TableHead>
+                          <TableHead className="text-right">Rounds Won</TableHead>
+                          <TableHead className="text-right">Rounds Played</TableHead>
+                          <TableHead className="text-right">Weeks Survived</TableHead>
+                          <TableHead className="text-right">Longest Streak</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {standings.table.map((row, index) => (
+                          <TableRow key={row.userId}>
+                            <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                            <TableCell className="font-medium">
+                              <PlayerBadge player={row.player} />
+                            </TableCell>
+                            <TableCell className="text-right">{row.roundsWon}</TableCell>
+                            <TableCell className="text-right">{row.roundsPlayed}</TableCell>
+                            <TableCell className="text-right">{row.weeksSurvived}</TableCell>
+                            <TableCell className="text-right">{row.longestStreak}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig,
+} from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Loader2, BarChart3, Skull, EyeOff } from "lucide-react";
+import { motion } from "framer-motion";
+import type { Season, SeasonPickStats, GameWeekStats, SeasonTeamStats } from "@shared/schema";
+
+const gameWeekChartConfig = {
+  survived: { label: "Survived", color: "hsl(142 71% 45%)" },
+  failed: { label: "Knocked out", color: "hsl(0 84% 60%)" },
+  pending: { label: "Awaiting result", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const mostPickedChartConfig = {
+  picks: { label: "Picks", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const graveyardChartConfig = {
+  eliminations: { label: "Players knocked out", color: "hsl(0 84% 60%)" },
+} satisfies ChartConfig;
+
+function formatRate(rate: number | null) {
+  return rate === null ? "-" : `${Math.round(rate * 100)}%`;
+}
+
+function GameWeekStatsCard({ gameWeekId }: { gameWeekId: number }) {
+  const { data: stats, isLoading } = useQuery<GameWeekStats>({
+    queryKey: [`/api/game-weeks/${gameWeekId}/stats`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+  if (!stats) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="p-4 bg-muted/50 rounded-lg">
+          <p className="text-sm text-muted-foreground">Picks made</p>
+          <p className="text-2xl font-bold">{stats.totalPicks}</p>
+        </div>
+        <div className="p-4 bg-muted/50 rounded-lg">
+          <p className="text-sm text-muted-foreground">Eliminations</p>
+          <p className="text-2xl font-bold text-red-500">{stats.eliminations}</p>
+        </div>
+      </div>
+
+      {!stats.isRevealed ? (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <EyeOff className="h-4 w-4" />
+          The breakdown by team is shown once the deadline passes.
+        </p>
+      ) : stats.teams.length === 0 ? (
+        <p className="text-muted-foreground">No picks were made this game week</p>
+      ) : (
+        <>
+          <ChartContainer config={gameWeekChartConfig} className="h-[300px] w-full aspect-auto">
+            <BarChart data={stats.teams} margin={{ left: -20 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="teamName" tickLine={false} axisLine={false} interval={0} angle={-35} textAnchor="end" height={70} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="survived" stackId="picks" fill="var(--color-survived)" />
+              <Bar dataKey="failed" stackId="picks" fill="var(--color-failed)" />
+              <Bar dataKey="pending" stackId="picks" fill="var(--color-pending)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Team</TableHead>
+                <TableHead className="text-right">Picks</TableHead>
+                <TableHead className="text-right">Survived</TableHead>
+                <TableHead className="text-right">Knocked Out</TableHead>
+                <TableHead className="text-right">Survival Rate</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stats.teams.map((team) => (
+                <TableRow key={team.teamId}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      {team.teamCrest && <img src={team.teamCrest} alt="" className="w-5 h-5" />}
+                      {team.teamName}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{team.picks}</TableCell>
+                  <TableCell className="text-right">{team.survived}</TableCell>
+                  <TableCell className="text-right">{team.failed}</TableCell>
+                  <TableCell className="text-right">{formatRate(team.survivalRate)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </div>
+  );
+}
+
+function SeasonTeamChart({ teams, dataKey, config, empty }: {
+  teams: SeasonTeamStats[];
+  dataKey: "picks" | "eliminations";
+  config: ChartConfig;
+  empty: string;
+}) {
+  if (teams.length === 0) {
+    return <p className="text-muted-foreground">{empty}</p>;
+  }
+
+  return (
+    <ChartContainer config={config} className="h-[300px] w-full aspect-auto">
+      <BarChart data={teams} layout="vertical" margin={{ left: 20 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+        <YAxis type="category" dataKey="teamName" tickLine={false} axisLine={false} width={110} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey={dataKey} fill={`var(--color-${dataKey})`} radius={[0, 4, 4, 0]} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+export default function StatsPage() {
+  const [seasonId, setSeasonId] = useState<string>();
+  const [gameWeekId, setGameWeekId] = useState<string>();
+
+  const { data: seasons, isLoading: seasonsLoading } = useQuery<Season[]>({
+    queryKey: ["/api/seasons"],
+  });
+
+  const selectedSeasonId = seasonId ?? seasons?.find((s) => s.isActive)?.id.toString();
+
+  const { data: stats, isLoading: statsLoading } = useQuery<SeasonPickStats>({
+    queryKey: [`/api/seasons/${selectedSeasonId}/stats`],
+    enabled: !!selectedSeasonId,
+  });
+
+  // Default to the latest game week with stats to show
+  const selectedGameWeekId = gameWeekId ?? stats?.gameWeeks[stats.gameWeeks.length - 1]?.id.toString();
+
+  return (
+    <div className="container mx-auto px-4 py-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.4 }}
+          className="flex flex-col sm:flex-row sm:items-end justify-between gap-4 mb-4"
+        >
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center gap-2">
+              <BarChart3 className="h-7 w-7 text-primary" />
+              <h1 className="text-2xl md:text-3xl font-bold bg-gradient-to-br from-primary to-primary/80 bg-clip-text text-transparent">
+                Stats
+              </h1>
+            </div>
+            <p className="text-muted-foreground max-w-2xl">
+              Who everyone backed, and which teams did the most damage.
+            </p>
+          </div>
+          <div className="w-full sm:w-56">
+            <Select
+              value={selectedSeasonId}
+              onValueChange={(value) => {
+                setSeasonId(value);
+                setGameWeekId(undefined);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a season" />
+              </SelectTrigger>
+              <SelectContent>
+                {seasons?.map((season) => (
+                  <SelectItem key={season.id} value={season.id.toString()}>
+                    {season.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </motion.div>
+
+        {seasonsLoading || statsLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !stats ? (
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-muted-foreground">No stats available</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle>Game Week Picks</CardTitle>
+                  <CardDescription>How many backed each team and how they got on</CardDescription>
+                </div>
+                {stats.gameWeeks.length > 0 && (
+                  <div className="w-full sm:w-56">
+                    <Select value={selectedGameWeekId} onValueChange={setGameWeekId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a game week" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {stats.gameWeeks.map((gw) => (
+                          <SelectItem key={gw.id} value={gw.id.toString()}>
+                            Round {gw.roundNumber} · Week {gw.number}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </CardHeader>
+              <CardContent>
+                {selectedGameWeekId ? (
+                  <GameWeekStatsCard gameWeekId={parseInt(selectedGameWeekId)} />
+                ) : (
+                  <p className="text-muted-foreground">No game weeks have passed their deadline yet</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Most Picked</CardTitle>
+                  <CardDescription>The teams backed most often this season</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <SeasonTeamChart
+                    teams={stats.mostPicked}
+                    dataKey="picks"
+                    config={mostPickedChartConfig}
+                    empty="No picks have been revealed yet"
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center gap-2">
+                    <Skull className="h-5 w-5 text-red-500" />
+                    <CardTitle>The Graveyard</CardTitle>
+                  </div>
+                  <CardDescription>The teams that knocked out the most players</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <SeasonTeamChart
+                    teams={stats.graveyard}
+                    dataKey="eliminations"
+                    config={graveyardChartConfig}
+                    empty="Nobody has been knocked out yet"
+                  />
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Link, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { resetPasswordSchema } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, Loader2 } from "lucide-react";
+
+export default function ResetPasswordPage() {
+  const { toast } = useToast();
+  const token = new URLSearchParams(useSearch()).get("token") ?? "";
+  const [isReset, setIsReset] = useState(false);
+
+  const form = useForm<{ token: string; password: string }>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { token, password: "" },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (data: { token: string; password: string }) => {
+      const res = await apiRequest("POST", "/api/password/reset", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      // Every session for the account is logged out, including this browser's
+      queryClient.setQueryData(["/api/user"], null);
+      setIsReset(true);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reset password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/10 to-primary/5 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <div className="flex items-center justify-center gap-2 mb-2">
+            <KeyRound className="h-6 w-6 text-primary" />
+            <h1 className="text-2xl font-bold text-center bg-gradient-to-br from-primary to-primary/80 bg-clip-text text-transparent">
+              Reset Password
+            </h1>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isReset ? (
+            <p className="text-center">Your password has been reset. You can now log in with it.</p>
+          ) : !token ? (
+            <p className="text-center text-destructive">This reset link is missing its token.</p>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => resetMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={resetMutation.isPending}>
+                  {resetMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Reset Password
+                </Button>
+              </form>
+            </Form>
+          )}
+          <p className="text-center text-sm">
+            <Link href="/auth" className="text-primary hover:underline">Back to login</Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
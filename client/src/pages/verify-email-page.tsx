@@ -0,0 +1,53 @@
+import { useEffect } from "react";
+import { Link, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { MailCheck, Loader2 } from "lucide-react";
+
+export default function VerifyEmailPage() {
+  const token = new URLSearchParams(useSearch()).get("token") ?? "";
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/email/verify", { token });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+  });
+
+  useEffect(() => {
+    if (token) verifyMutation.mutate();
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/10 to-primary/5 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <div className="flex items-center justify-center gap-2 mb-2">
+            <MailCheck className="h-6 w-6 text-primary" />
+            <h1 className="text-2xl font-bold text-center bg-gradient-to-br from-primary to-primary/80 bg-clip-text text-transparent">
+              Confirm Email
+            </h1>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4 text-center">
+          {!token ? (
+            <p className="text-destructive">This verification link is missing its token.</p>
+          ) : verifyMutation.isSuccess ? (
+            <p>Thanks, your email address is confirmed.</p>
+          ) : verifyMutation.isError ? (
+            <p className="text-destructive">{verifyMutation.error.message}</p>
+          ) : (
+            <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto" />
+          )}
+          <p className="text-sm">
+            <Link href="/" className="text-primary hover:underline">Go to the game</Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
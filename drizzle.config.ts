@@ -12,5 +12,3 @@ export default defineConfig({
     url: process.env.DATABASE_URL,
   },
 });
-console.log("Database URL:", process.env.DATABASE_URL);
-console.log("Database Password:", process.env.PGPASSWORD);
\ No newline at end of file
@@ -0,0 +1,195 @@
+CREATE TABLE "audit_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"actor_id" integer,
+	"action" text NOT NULL,
+	"entity_type" text NOT NULL,
+	"entity_id" integer,
+	"before" jsonb,
+	"after" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "auth_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"purpose" text NOT NULL,
+	"token_hash" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "auth_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "fixtures" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"external_id" integer,
+	"home_team_id" integer NOT NULL,
+	"away_team_id" integer NOT NULL,
+	"home_score" integer,
+	"away_score" integer,
+	"kickoff" timestamp NOT NULL,
+	"status" text DEFAULT 'SCHEDULED' NOT NULL,
+	"selected" boolean DEFAULT false NOT NULL,
+	"winner" text,
+	"external_season_id" integer,
+	"season_id" integer NOT NULL,
+	"locked" boolean DEFAULT false NOT NULL,
+	CONSTRAINT "fixtures_external_id_unique" UNIQUE("external_id")
+);
+--> statement-breakpoint
+CREATE TABLE "game_week_fixtures" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"game_week_id" integer NOT NULL,
+	"fixture_id" integer NOT NULL,
+	CONSTRAINT "game_week_fixtures_game_week_id_fixture_id_unique" UNIQUE("game_week_id","fixture_id")
+);
+--> statement-breakpoint
+CREATE TABLE "game_weeks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"round_id" integer NOT NULL,
+	"number" integer NOT NULL,
+	"deadline" timestamp NOT NULL,
+	"is_active" boolean DEFAULT false NOT NULL,
+	"settled_at" timestamp,
+	"deadline_processed_at" timestamp,
+	CONSTRAINT "game_weeks_round_id_number_unique" UNIQUE("round_id","number")
+);
+--> statement-breakpoint
+CREATE TABLE "job_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"job" text NOT NULL,
+	"trigger" text NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"inserted" integer DEFAULT 0 NOT NULL,
+	"updated" integer DEFAULT 0 NOT NULL,
+	"failed" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "league_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"league_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"joined_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "league_members_league_id_user_id_unique" UNIQUE("league_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "leagues" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"owner_id" integer NOT NULL,
+	"invite_code" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "leagues_invite_code_unique" UNIQUE("invite_code")
+);
+--> statement-breakpoint
+CREATE TABLE "notification_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"type" text NOT NULL,
+	"key" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"sent_at" timestamp,
+	CONSTRAINT "notification_log_user_id_type_key_unique" UNIQUE("user_id","type","key")
+);
+--> statement-breakpoint
+CREATE TABLE "notification_templates" (
+	"type" text PRIMARY KEY NOT NULL,
+	"subject" text NOT NULL,
+	"body" text NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "pick_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"pick_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"game_week_id" integer NOT NULL,
+	"action" text NOT NULL,
+	"previous_team_id" integer,
+	"previous_fixture_id" integer,
+	"team_id" integer,
+	"fixture_id" integer,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "picks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"team_id" integer NOT NULL,
+	"game_week_id" integer NOT NULL,
+	"round_id" integer NOT NULL,
+	"season_id" integer NOT NULL,
+	"fixture_id" integer NOT NULL,
+	"external_id" integer,
+	"is_home_team" boolean NOT NULL,
+	"is_correct" boolean,
+	"picked_at" timestamp DEFAULT now() NOT NULL,
+	"is_auto_pick" boolean DEFAULT false NOT NULL,
+	"is_void" boolean DEFAULT false NOT NULL,
+	CONSTRAINT "picks_user_id_game_week_id_unique" UNIQUE("user_id","game_week_id")
+);
+--> statement-breakpoint
+CREATE TABLE "round_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"round_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"status" text DEFAULT 'alive' NOT NULL,
+	"lives_remaining" integer DEFAULT 1 NOT NULL,
+	"eliminated_game_week_id" integer,
+	"elimination_reason" text,
+	"joined_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "round_entries_round_id_user_id_unique" UNIQUE("round_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "rounds" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"season_id" integer NOT NULL,
+	"league_id" integer,
+	"number" integer NOT NULL,
+	"is_active" boolean DEFAULT false NOT NULL,
+	"rules" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	CONSTRAINT "rounds_season_id_league_id_number_unique" UNIQUE("season_id","league_id","number")
+);
+--> statement-breakpoint
+CREATE TABLE "seasons" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"competition" text DEFAULT 'PL' NOT NULL,
+	"start_date" timestamp NOT NULL,
+	"end_date" timestamp NOT NULL,
+	"is_active" boolean DEFAULT false NOT NULL,
+	CONSTRAINT "seasons_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+CREATE TABLE "teams" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"competition" text DEFAULT 'PL' NOT NULL,
+	"short_name" text,
+	"tla" text,
+	"crest" text,
+	CONSTRAINT "teams_name_competition_unique" UNIQUE("name","competition")
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"email" text NOT NULL,
+	"role" text DEFAULT 'player' NOT NULL,
+	"disabled_at" timestamp,
+	"active_league_id" integer,
+	"display_name" text,
+	"avatar_url" text,
+	"favourite_team_id" integer,
+	"notification_opt_outs" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"email_verified_at" timestamp,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "users_email_lower_unique" ON "users" USING btree (lower("email"));
\ No newline at end of file
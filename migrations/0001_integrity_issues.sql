@@ -0,0 +1,8 @@
+CREATE TABLE "integrity_issues" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"table_name" text NOT NULL,
+	"constraint_name" text NOT NULL,
+	"problem" text NOT NULL,
+	"row" jsonb NOT NULL,
+	"found_at" timestamp DEFAULT now() NOT NULL
+);
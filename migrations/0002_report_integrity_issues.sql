@@ -0,0 +1,78 @@
+-- Finds existing rows that would break the foreign keys and check constraints
+-- added in the next migration: rows pointing at a parent row that no longer
+-- exists, and rows failing a check. Each one is copied to integrity_issues and
+-- reported as a warning. Nothing is changed or deleted; an admin decides what
+-- to do with them, and the constraints cover new writes in the meantime.
+DO $$
+DECLARE
+  rel record;
+  chk record;
+  issue_count integer;
+BEGIN
+  FOR rel IN SELECT * FROM (VALUES
+    ('auth_tokens', 'user_id', 'users'),
+    ('leagues', 'owner_id', 'users'),
+    ('league_members', 'league_id', 'leagues'),
+    ('league_members', 'user_id', 'users'),
+    ('users', 'active_league_id', 'leagues'),
+    ('users', 'favourite_team_id', 'teams'),
+    ('rounds', 'season_id', 'seasons'),
+    ('rounds', 'league_id', 'leagues'),
+    ('game_weeks', 'round_id', 'rounds'),
+    ('fixtures', 'season_id', 'seasons'),
+    ('fixtures', 'home_team_id', 'teams'),
+    ('fixtures', 'away_team_id', 'teams'),
+    ('game_week_fixtures', 'game_week_id', 'game_weeks'),
+    ('game_week_fixtures', 'fixture_id', 'fixtures'),
+    ('round_entries', 'round_id', 'rounds'),
+    ('round_entries', 'user_id', 'users'),
+    ('round_entries', 'eliminated_game_week_id', 'game_weeks'),
+    ('picks', 'user_id', 'users'),
+    ('picks', 'team_id', 'teams'),
+    ('picks', 'game_week_id', 'game_weeks'),
+    ('picks', 'round_id', 'rounds'),
+    ('picks', 'season_id', 'seasons'),
+    ('picks', 'fixture_id', 'fixtures'),
+    ('pick_history', 'user_id', 'users'),
+    ('pick_history', 'game_week_id', 'game_weeks'),
+    ('notification_log', 'user_id', 'users'),
+    ('audit_log', 'actor_id', 'users')
+  ) AS r(child, col, parent)
+  LOOP
+    EXECUTE format(
+      'INSERT INTO integrity_issues (table_name, constraint_name, problem, "row") '
+      'SELECT %1$L, %4$L, %5$L || %1$I.%2$I, to_jsonb(%1$I) FROM %1$I '
+      'WHERE %1$I.%2$I IS NOT NULL AND NOT EXISTS (SELECT 1 FROM %3$I p WHERE p.id = %1$I.%2$I)',
+      rel.child, rel.col, rel.parent,
+      format('%s_%s_%s_id_fk', rel.child, rel.col, rel.parent),
+      format('%s points at missing %s row ', rel.col, rel.parent)
+    );
+    GET DIAGNOSTICS issue_count = ROW_COUNT;
+    CONTINUE WHEN issue_count = 0;
+
+    RAISE WARNING '% %.% row(s) point at a missing % row; they are listed in integrity_issues',
+      issue_count, rel.child, rel.col, rel.parent;
+  END LOOP;
+
+  -- A check only fails when its condition is false, not when it's null
+  FOR chk IN SELECT * FROM (VALUES
+    ('fixtures', 'fixtures_teams_check', 'home_team_id <> away_team_id'),
+    ('fixtures', 'fixtures_scores_check', 'home_score >= 0 AND away_score >= 0'),
+    ('game_weeks', 'game_weeks_number_check', 'number > 0'),
+    ('round_entries', 'round_entries_lives_check', 'lives_remaining >= 0'),
+    ('rounds', 'rounds_number_check', 'number > 0'),
+    ('seasons', 'seasons_dates_check', 'end_date >= start_date')
+  ) AS c(tbl, name, condition)
+  LOOP
+    EXECUTE format(
+      'INSERT INTO integrity_issues (table_name, constraint_name, problem, "row") '
+      'SELECT %1$L, %2$L, %3$L, to_jsonb(%1$I) FROM %1$I WHERE (%4$s) IS FALSE',
+      chk.tbl, chk.name, format('fails %s', chk.condition), chk.condition
+    );
+    GET DIAGNOSTICS issue_count = ROW_COUNT;
+    CONTINUE WHEN issue_count = 0;
+
+    RAISE WARNING '% % row(s) fail %; they are listed in integrity_issues',
+      issue_count, chk.tbl, chk.condition;
+  END LOOP;
+END $$;
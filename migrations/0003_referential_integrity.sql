@@ -0,0 +1,67 @@
+ALTER TABLE "audit_log" ADD CONSTRAINT "audit_log_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "auth_tokens" ADD CONSTRAINT "auth_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "fixtures" ADD CONSTRAINT "fixtures_home_team_id_teams_id_fk" FOREIGN KEY ("home_team_id") REFERENCES "public"."teams"("id") ON DELETE no action ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "fixtures" ADD CONSTRAINT "fixtures_away_team_id_teams_id_fk" FOREIGN KEY ("away_team_id") REFERENCES "public"."teams"("id") ON DELETE no action ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "fixtures" ADD CONSTRAINT "fixtures_season_id_seasons_id_fk" FOREIGN KEY ("season_id") REFERENCES "public"."seasons"("id") ON DELETE cascade ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "game_week_fixtures" ADD CONSTRAINT "game_week_fixtures_game_week_id_game_weeks_id_fk" FOREIGN KEY ("game_week_id") REFERENCES "public"."game_weeks"("id") ON DELETE cascade ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "game_week_fixtures" ADD CONSTRAINT "game_week_fixtures_fixture_id_fixtures_id_fk" FOREIGN KEY ("fixture_id") REFERENCES "public"."fixtures"("id") ON DELETE cascade ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "game_weeks" ADD CONSTRAINT "game_weeks_round_id_rounds_id_fk" FOREIGN KEY ("round_id") REFERENCES "public"."rounds"("id") ON DELETE cascade ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "league_members" ADD CONSTRAINT "league_members_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "league_members" ADD CONSTRAINT "league_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "leagues" ADD CONSTRAINT "leagues_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "notification_log" ADD CONSTRAINT "notification_log_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "pick_history" ADD CONSTRAINT "pick_history_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "pick_history" ADD CONSTRAINT "pick_history_game_week_id_game_weeks_id_fk" FOREIGN KEY ("game_week_id") REFERENCES "public"."game_weeks"("id") ON DELETE cascade ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "picks" ADD CONSTRAINT "picks_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "picks" ADD CONSTRAINT "picks_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE no action ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "picks" ADD CONSTRAINT "picks_game_week_id_game_weeks_id_fk" FOREIGN KEY ("game_week_id") REFERENCES "public"."game_weeks"("id") ON DELETE cascade ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "picks" ADD CONSTRAINT "picks_round_id_rounds_id_fk" FOREIGN KEY ("round_id") REFERENCES "public"."rounds"("id") ON DELETE cascade ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "picks" ADD CONSTRAINT "picks_season_id_seasons_id_fk" FOREIGN KEY ("season_id") REFERENCES "public"."seasons"("id") ON DELETE cascade ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "picks" ADD CONSTRAINT "picks_fixture_id_fixtures_id_fk" FOREIGN KEY ("fixture_id") REFERENCES "public"."fixtures"("id") ON DELETE no action ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "round_entries" ADD CONSTRAINT "round_entries_round_id_rounds_id_fk" FOREIGN KEY ("round_id") REFERENCES "public"."rounds"("id") ON DELETE cascade ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "round_entries" ADD CONSTRAINT "round_entries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "round_entries" ADD CONSTRAINT "round_entries_eliminated_game_week_id_game_weeks_id_fk" FOREIGN KEY ("eliminated_game_week_id") REFERENCES "public"."game_weeks"("id") ON DELETE set null ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "rounds" ADD CONSTRAINT "rounds_season_id_seasons_id_fk" FOREIGN KEY ("season_id") REFERENCES "public"."seasons"("id") ON DELETE cascade ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "rounds" ADD CONSTRAINT "rounds_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_active_league_id_leagues_id_fk" FOREIGN KEY ("active_league_id") REFERENCES "public"."leagues"("id") ON DELETE set null ON UPDATE no action NOT VALID;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_favourite_team_id_teams_id_fk" FOREIGN KEY ("favourite_team_id") REFERENCES "public"."teams"("id") ON DELETE set null ON UPDATE no action NOT VALID;--> statement-breakpoint
+CREATE INDEX "audit_log_created_at_idx" ON "audit_log" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "audit_log_entity_idx" ON "audit_log" USING btree ("entity_type","entity_id");--> statement-breakpoint
+CREATE INDEX "audit_log_actor_id_idx" ON "audit_log" USING btree ("actor_id");--> statement-breakpoint
+CREATE INDEX "auth_tokens_user_id_idx" ON "auth_tokens" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "fixtures_season_id_idx" ON "fixtures" USING btree ("season_id");--> statement-breakpoint
+CREATE INDEX "fixtures_kickoff_idx" ON "fixtures" USING btree ("kickoff");--> statement-breakpoint
+CREATE INDEX "game_week_fixtures_fixture_id_idx" ON "game_week_fixtures" USING btree ("fixture_id");--> statement-breakpoint
+CREATE INDEX "league_members_user_id_idx" ON "league_members" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "pick_history_game_week_id_idx" ON "pick_history" USING btree ("game_week_id");--> statement-breakpoint
+CREATE INDEX "picks_game_week_id_idx" ON "picks" USING btree ("game_week_id");--> statement-breakpoint
+CREATE INDEX "picks_round_id_user_id_idx" ON "picks" USING btree ("round_id","user_id");--> statement-breakpoint
+CREATE INDEX "picks_fixture_id_idx" ON "picks" USING btree ("fixture_id");--> statement-breakpoint
+CREATE INDEX "round_entries_user_id_idx" ON "round_entries" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "rounds_league_id_idx" ON "rounds" USING btree ("league_id");--> statement-breakpoint
+ALTER TABLE "fixtures" ADD CONSTRAINT "fixtures_teams_check" CHECK ("fixtures"."home_team_id" <> "fixtures"."away_team_id") NOT VALID;--> statement-breakpoint
+ALTER TABLE "fixtures" ADD CONSTRAINT "fixtures_scores_check" CHECK ("fixtures"."home_score" >= 0 AND "fixtures"."away_score" >= 0) NOT VALID;--> statement-breakpoint
+ALTER TABLE "game_weeks" ADD CONSTRAINT "game_weeks_number_check" CHECK ("game_weeks"."number" > 0) NOT VALID;--> statement-breakpoint
+ALTER TABLE "round_entries" ADD CONSTRAINT "round_entries_lives_check" CHECK ("round_entries"."lives_remaining" >= 0) NOT VALID;--> statement-breakpoint
+ALTER TABLE "rounds" ADD CONSTRAINT "rounds_number_check" CHECK ("rounds"."number" > 0) NOT VALID;--> statement-breakpoint
+ALTER TABLE "seasons" ADD CONSTRAINT "seasons_dates_check" CHECK ("seasons"."end_date" >= "seasons"."start_date") NOT VALID;--> statement-breakpoint
+-- The constraints above were added without checking existing rows. Validate
+-- each one; those with rows listed in integrity_issues stay unvalidated until
+-- an admin fixes the rows and runs ALTER TABLE ... VALIDATE CONSTRAINT.
+DO $$
+DECLARE
+  con record;
+BEGIN
+  FOR con IN
+    SELECT c.conname, c.conrelid::regclass AS tbl
+    FROM pg_constraint c
+    JOIN pg_namespace n ON n.oid = c.connamespace
+    WHERE n.nspname = 'public' AND NOT c.convalidated
+  LOOP
+    BEGIN
+      EXECUTE format('ALTER TABLE %s VALIDATE CONSTRAINT %I', con.tbl, con.conname);
+    EXCEPTION WHEN foreign_key_violation OR check_violation THEN
+      RAISE WARNING 'Constraint % on % was left unvalidated: %', con.conname, con.tbl, SQLERRM;
+    END;
+  END LOOP;
+END $$;
@@ -0,0 +1,3 @@
+-- Databases adopted from the old startup script never had the name constraint
+ALTER TABLE "seasons" DROP CONSTRAINT IF EXISTS "seasons_name_unique";--> statement-breakpoint
+ALTER TABLE "seasons" ADD CONSTRAINT "seasons_competition_name_unique" UNIQUE("competition","name");
@@ -1,11 +1,17 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
-import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import type { IStorage } from "./types";
+import {
+  User as SelectUser, forgotPasswordSchema, resetPasswordSchema, verifyEmailSchema, registerUserSchema, loginSchema,
+  hasRole, userRoleLabels, type AuthTokenPurpose, type PublicUser, type UserRole,
+} from "@shared/schema";
+import { generateAuthToken, hashToken } from "./services/auth-tokens";
+import { passwordResetEmail, verificationEmail } from "./services/auth-emails";
+import { getEmailTransport, type EmailMessage } from "./services/email-transport";
 
 declare global {
   namespace Express {
@@ -28,7 +34,43 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
+// Strips the password hash; every auth route returns users through this
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+// Lets the request through only for signed-in users with at least the given role
+export function requireRole(role: UserRole): RequestHandler {
+  return (req, res, next) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+    if (!hasRole(req.user, role)) {
+      return res.status(403).send(`${userRoleLabels[role]} access required`);
+    }
+    next();
+  };
+}
+
+// Postgres unique_violation, e.g. two registrations racing for the same username
+function isUniqueViolation(error: unknown) {
+  return typeof error === "object" && error !== null && (error as { code?: string }).code === "23505";
+}
+
+// Issues a fresh single-use token and emails its link to the user
+async function sendTokenEmail(
+  storage: IStorage,
+  user: SelectUser,
+  purpose: AuthTokenPurpose,
+  buildEmail: (user: SelectUser, token: string) => EmailMessage,
+) {
+  const { token, tokenHash, expiresAt } = generateAuthToken(purpose);
+  await storage.createAuthToken(user.id, purpose, tokenHash, expiresAt);
+  await getEmailTransport().send(buildEmail(user, token));
+}
+
+export function setupAuth(app: Express, storage: IStorage) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET!,
     resave: false,
@@ -43,40 +85,78 @@ export function setupAuth(app: Express) {
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
-      const user = await storage.getUserByUsername(username);
-      if (!user || !(await comparePasswords(password, user.password))) {
-        return done(null, false);
-      } else {
-        return done(null, user);
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        } else if (user.disabledAt) {
+          return done(null, false, { message: "This account has been disabled" });
+        } else {
+          return done(null, user);
+        }
+      } catch (error) {
+        return done(error);
       }
     }),
   );
 
   passport.serializeUser((user, done) => done(null, user.id));
   passport.deserializeUser(async (id: number, done) => {
-    const user = await storage.getUser(id);
-    done(null, user);
+    try {
+      const user = await storage.getUser(id);
+      // A disabled account loses any session it still has
+      done(null, user && !user.disabledAt ? user : false);
+    } catch (error) {
+      done(error);
+    }
   });
 
   app.post("/api/register", async (req, res, next) => {
-    const existingUser = await storage.getUserByUsername(req.body.username);
-    if (existingUser) {
-      return res.status(400).send("Username already exists");
+    const parsed = registerUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).send(parsed.error.errors.map(e => e.message).join(", "));
     }
 
-    const user = await storage.createUser({
-      ...req.body,
-      password: await hashPassword(req.body.password),
-    });
+    const { username, email, password } = parsed.data;
+    let user: SelectUser;
+    try {
+      if (await storage.getUserByUsername(username)) {
+        return res.status(400).send("Username already exists");
+      }
+      if ((await storage.getUsersByEmail(email)).length > 0) {
+        return res.status(400).send("An account with this email already exists");
+      }
+
+      user = await storage.createUser({ username, email, password: await hashPassword(password) });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return res.status(400).send("Username or email already exists");
+      }
+      return next(error);
+    }
+
+    // A mail problem shouldn't stop the account being created; the player can ask for another link
+    try {
+      await sendTokenEmail(storage, user, "email_verification", verificationEmail);
+    } catch (error) {
+      console.error("Error sending verification email:", error);
+    }
 
     req.login(user, (err) => {
       if (err) return next(err);
-      res.status(201).json(user);
+      res.status(201).json(toPublicUser(user));
     });
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+  app.post("/api/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).send(parsed.error.errors.map(e => e.message).join(", "));
+    }
+    req.body = parsed.data;
+    next();
+  }, passport.authenticate("local"), (req, res) => {
+    res.status(200).json(toPublicUser(req.user!));
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -86,8 +166,86 @@ export function setupAuth(app: Express) {
     });
   });
 
+  // Always answers the same way so it can't be used to find out which emails have accounts
+  app.post("/api/password/forgot", async (req, res) => {
+    const parsed = forgotPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json(parsed.error);
+    }
+
+    try {
+      for (const user of await storage.getUsersByEmail(parsed.data.email)) {
+        await sendTokenEmail(storage, user, "password_reset", passwordResetEmail);
+      }
+    } catch (error) {
+      console.error("Error sending password reset email:", error);
+    }
+
+    res.json({ message: "If an account uses that email, a reset link is on its way" });
+  });
+
+  app.post("/api/password/reset", async (req, res) => {
+    const parsed = resetPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json(parsed.error);
+    }
+
+    try {
+      const token = await storage.consumeAuthToken("password_reset", hashToken(parsed.data.token));
+      if (!token) {
+        return res.status(400).send("This reset link is invalid or has expired");
+      }
+
+      await storage.updatePassword(token.userId, await hashPassword(parsed.data.password));
+      // The link proves the player can read the account's email
+      await storage.markEmailVerified(token.userId);
+      await storage.deleteUserSessions(token.userId);
+      res.json({ message: "Your password has been reset" });
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      res.status(500).json({ error: "Failed to reset password" });
+    }
+  });
+
+  app.post("/api/email/verify", async (req, res) => {
+    const parsed = verifyEmailSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json(parsed.error);
+    }
+
+    try {
+      const token = await storage.consumeAuthToken("email_verification", hashToken(parsed.data.token));
+      if (!token) {
+        return res.status(400).send("This verification link is invalid or has expired");
+      }
+
+      await storage.markEmailVerified(token.userId);
+      res.json({ message: "Your email address is confirmed" });
+    } catch (error) {
+      console.error("Error verifying email:", error);
+      res.status(500).json({ error: "Failed to verify email" });
+    }
+  });
+
+  app.post("/api/email/verify/resend", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+    if (req.user.emailVerifiedAt) {
+      return res.status(409).send("Your email address is already confirmed");
+    }
+
+    try {
+      await sendTokenEmail(storage, req.user, "email_verification", verificationEmail);
+      res.json({ message: `We've sent a new link to ${req.user.email}` });
+    } catch (error) {
+      console.error("Error sending verification email:", error);
+      res.status(500).json({ error: "Failed to send verification email" });
+    }
+  });
+
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toPublicUser(req.user));
   });
 }
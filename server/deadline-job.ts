@@ -0,0 +1,43 @@
+import type { IStorage } from "./types";
+import { log } from "./vite";
+import type { DeadlineResult } from "./services/auto-pick";
+
+const DEADLINE_CHECK_INTERVAL_MS = 60 * 1000;
+
+let isProcessing = false;
+
+// Handles missed picks for every game week whose deadline has passed
+export async function processDueDeadlines(storage: IStorage, now: Date = new Date()): Promise<DeadlineResult[]> {
+  const results: DeadlineResult[] = [];
+
+  for (const gameWeek of await storage.getGameWeeksAwaitingDeadline(now)) {
+    const result = await storage.processGameWeekDeadline(gameWeek.id, now);
+    if (!result) continue;
+
+    log(
+      `Deadline passed for game week ${gameWeek.id}: ${result.eliminatedEntryIds.length} eliminated, ` +
+      `${result.autoPicks.length} auto-picked, ${result.unassignedEntryIds.length} without a team`
+    );
+    results.push(result);
+  }
+
+  return results;
+}
+
+// Checks for passed deadlines once a minute, skipping a check if the last one is still running
+export function startDeadlineJob(storage: IStorage) {
+  const check = async () => {
+    if (isProcessing) return;
+    isProcessing = true;
+    try {
+      await processDueDeadlines(storage);
+    } catch (error) {
+      console.error("Error processing game week deadlines:", error);
+    } finally {
+      isProcessing = false;
+    }
+  };
+
+  check();
+  return setInterval(check, DEADLINE_CHECK_INTERVAL_MS);
+}
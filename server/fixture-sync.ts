@@ -0,0 +1,95 @@
+import type { IStorage } from "./types";
+import { publishFixtureUpdates } from "./live-updates";
+import type { FixtureProvider, ProviderTeam } from "./services/fixture-provider";
+import type { Fixture, JobRunOutcome, Season, Team } from "@shared/schema";
+
+function hasResultChanged(before: Fixture, after: Fixture) {
+  return before.status !== after.status ||
+    before.home_score !== after.home_score ||
+    before.away_score !== after.away_score ||
+    before.winner !== after.winner;
+}
+
+async function upsertTeam(storage: IStorage, team: ProviderTeam, competition: string): Promise<Team | undefined> {
+  return await storage.createTeam({
+    name: team.name,
+    competition,
+    short_name: team.shortName,
+    tla: team.tla,
+    crest: team.crest,
+  }).catch(async () => {
+    const existingTeam = await storage.getTeamByName(team.name, competition);
+    if (existingTeam) {
+      return storage.updateTeam(existingTeam.id, {
+        short_name: team.shortName,
+        tla: team.tla,
+        crest: team.crest,
+      });
+    }
+    return existingTeam;
+  });
+}
+
+// Pulls the fixtures of a season's competition from the provider into that season.
+// A fixture that fails to save is counted and skipped so one bad row doesn't stop the sync.
+// Fixtures whose score or status moved are pushed to connected clients afterwards.
+export async function syncFixtures(
+  storage: IStorage,
+  provider: FixtureProvider,
+  season: Season,
+  dateFrom?: string,
+  dateTo?: string,
+): Promise<JobRunOutcome> {
+  console.log(`Syncing ${season.competition} fixtures from ${provider.name} with date range:`, { dateFrom, dateTo });
+
+  const fixtures = await provider.fetchFixtures(season.competition, dateFrom, dateTo);
+  console.log(`Received ${fixtures.length} fixtures from ${provider.name}`);
+
+  const outcome: JobRunOutcome = { status: "succeeded", inserted: 0, updated: 0, failed: 0, error: null };
+  const changedFixtureIds: number[] = [];
+
+  for (const fixture of fixtures) {
+    try {
+      // First ensure we have both teams in our database
+      const homeTeam = await upsertTeam(storage, fixture.homeTeam, season.competition);
+      const awayTeam = await upsertTeam(storage, fixture.awayTeam, season.competition);
+
+      if (!homeTeam || !awayTeam) {
+        console.error('Failed to find or create teams for fixture:', fixture);
+        outcome.failed++;
+        continue;
+      }
+
+      const existing = await storage.getFixtureByExternalId(fixture.externalId);
+
+      // Update or insert the fixture in the season being synced
+      const saved = await storage.createOrUpdateFixture({
+        external_id: fixture.externalId,
+        home_team_id: homeTeam.id,
+        away_team_id: awayTeam.id,
+        home_score: fixture.homeScore,
+        away_score: fixture.awayScore,
+        kickoff: fixture.kickoff,
+        status: fixture.status,
+        winner: fixture.winner,
+        external_season_id: fixture.externalSeasonId, // External season ID from the provider
+        season_id: season.id, // Internal season reference
+        selected: false,
+      });
+
+      if (existing) outcome.updated++;
+      else outcome.inserted++;
+      if (existing && hasResultChanged(existing, saved)) changedFixtureIds.push(saved.id);
+    } catch (error) {
+      console.error(`Failed to sync fixture ${fixture.externalId}:`, error);
+      outcome.failed++;
+    }
+  }
+
+  // The sync itself succeeded even if clients couldn't be told about it
+  await publishFixtureUpdates(storage, changedFixtureIds).catch(error => {
+    console.error("Failed to publish live fixture updates:", error);
+  });
+
+  return outcome;
+}
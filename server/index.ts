@@ -1,11 +1,12 @@
+import 'dotenv/config';
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { startScheduler } from "./scheduler";
 import { setupVite, serveStatic, log } from "./vite";
-import { drizzle } from "drizzle-orm/node-postgres";
-import pg from "pg";
-import * as schema from "@shared/schema";
-import { sql } from "drizzle-orm";
-import 'dotenv/config';
+import { db, pool } from "./db";
+import { DatabaseStorage } from "./storage";
+import { runMigrations, checkSchemaDrift, SchemaDriftError } from "./migrations";
+import { getPort } from "./services/app-url";
 console.log("Connecting to database with URL:", process.env.DATABASE_URL);
 
 const app = express();
@@ -43,12 +44,6 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  // Set up database and run schema push
-  const { Pool } = pg;
-  const pool = new Pool({
-    connectionString: process.env.DATABASE_URL,
-  });
-
   // Test database connection
   try {
     await pool.query("SELECT 1");
@@ -58,80 +53,21 @@ app.use((req, res, next) => {
     process.exit(1);
   }
 
-  const db = drizzle(pool, { schema });
-
+  // Migrations run on startup unless deploys apply them with `npm run db:migrate`
   try {
-    log("Pushing schema to database...");
-    await db.execute(sql`
-      CREATE TABLE IF NOT EXISTS users (
-        id SERIAL PRIMARY KEY,
-        username TEXT NOT NULL UNIQUE,
-        password TEXT NOT NULL,
-        email TEXT NOT NULL,
-        is_admin BOOLEAN NOT NULL DEFAULT FALSE
-      );
-
-      CREATE TABLE IF NOT EXISTS seasons (
-        id SERIAL PRIMARY KEY,
-        name TEXT NOT NULL,
-        start_date TIMESTAMP NOT NULL,
-        end_date TIMESTAMP NOT NULL,
-        is_active BOOLEAN NOT NULL DEFAULT FALSE
-      );
-
-      CREATE TABLE IF NOT EXISTS rounds (
-        id SERIAL PRIMARY KEY,
-        season_id INTEGER NOT NULL,
-        number INTEGER NOT NULL,
-        is_active BOOLEAN NOT NULL DEFAULT FALSE
-      );
-
-      CREATE TABLE IF NOT EXISTS game_weeks (
-        id SERIAL PRIMARY KEY,
-        round_id INTEGER NOT NULL,
-        number INTEGER NOT NULL,
-        deadline TIMESTAMP NOT NULL,
-        is_active BOOLEAN NOT NULL DEFAULT FALSE
-      );
-
-      CREATE TABLE IF NOT EXISTS teams (
-        id SERIAL PRIMARY KEY,
-        name TEXT NOT NULL UNIQUE
-      );
-
-      CREATE TABLE IF NOT EXISTS fixtures (
-        id SERIAL PRIMARY KEY,
-        external_id INTEGER UNIQUE,
-        game_week_id INTEGER,
-        round_id INTEGER,
-        season_id INTEGER NOT NULL,
-        home_team_id INTEGER NOT NULL,
-        away_team_id INTEGER NOT NULL,
-        home_score INTEGER,
-        away_score INTEGER,
-        kickoff TIMESTAMP NOT NULL,
-        status TEXT NOT NULL DEFAULT 'SCHEDULED',
-        selected BOOLEAN NOT NULL DEFAULT FALSE,
-        winner TEXT
-      );
-
-      CREATE TABLE IF NOT EXISTS picks (
-        id SERIAL PRIMARY KEY,
-        user_id INTEGER NOT NULL,
-        game_week_id INTEGER NOT NULL,
-        team_id INTEGER NOT NULL,
-        is_correct BOOLEAN,
-        picked_at TIMESTAMP NOT NULL DEFAULT NOW(),
-        UNIQUE(user_id, game_week_id)
-      );
-    `);
-    log("Schema push completed successfully");
+    if (process.env.MIGRATE_ON_START !== "false") {
+      log("Applying database migrations...");
+      await runMigrations(db);
+    }
+    await checkSchemaDrift(db);
+    log("Database schema is up to date");
   } catch (error) {
-    log("Error pushing schema:", error);
+    log(error instanceof SchemaDriftError ? error.message : `Error migrating database: ${error}`);
     process.exit(1);
   }
 
-  const server = await registerRoutes(app);
+  const storage = new DatabaseStorage(db, pool);
+  const server = await registerRoutes(app, storage);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -147,8 +83,9 @@ app.use((req, res, next) => {
     serveStatic(app);
   }
 
-  const port = 3000;
+  const port = getPort();
   server.listen(port, () => {
     log(`Server running at http://localhost:${port}`);
+    startScheduler(storage);
   });
 })();
\ No newline at end of file
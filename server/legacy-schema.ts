@@ -0,0 +1,261 @@
+// The schema as the startup script used to build it before versioned migrations,
+// followed by the columns that script had drifted on. It only runs once, on a
+// database that predates migrations, to bring it level with the baseline
+// migration before that migration is recorded as applied. Don't add to it:
+// schema changes go in a new migration generated with `npm run db:generate`.
+export const LEGACY_SCHEMA_SQL = `
+  CREATE TABLE IF NOT EXISTS users (
+    id SERIAL PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE,
+    password TEXT NOT NULL,
+    email TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'player'
+  );
+
+  CREATE TABLE IF NOT EXISTS seasons (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    start_date TIMESTAMP NOT NULL,
+    end_date TIMESTAMP NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT FALSE
+  );
+
+  CREATE TABLE IF NOT EXISTS rounds (
+    id SERIAL PRIMARY KEY,
+    season_id INTEGER NOT NULL,
+    number INTEGER NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT FALSE
+  );
+
+  CREATE TABLE IF NOT EXISTS game_weeks (
+    id SERIAL PRIMARY KEY,
+    round_id INTEGER NOT NULL,
+    number INTEGER NOT NULL,
+    deadline TIMESTAMP NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT FALSE
+  );
+
+  CREATE TABLE IF NOT EXISTS teams (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE
+  );
+
+  CREATE TABLE IF NOT EXISTS fixtures (
+    id SERIAL PRIMARY KEY,
+    external_id INTEGER UNIQUE,
+    game_week_id INTEGER,
+    round_id INTEGER,
+    season_id INTEGER NOT NULL,
+    home_team_id INTEGER NOT NULL,
+    away_team_id INTEGER NOT NULL,
+    home_score INTEGER,
+    away_score INTEGER,
+    kickoff TIMESTAMP NOT NULL,
+    status TEXT NOT NULL DEFAULT 'SCHEDULED',
+    selected BOOLEAN NOT NULL DEFAULT FALSE,
+    winner TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS picks (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    game_week_id INTEGER NOT NULL,
+    team_id INTEGER NOT NULL,
+    is_correct BOOLEAN,
+    picked_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    UNIQUE(user_id, game_week_id)
+  );
+
+  ALTER TABLE game_weeks ADD COLUMN IF NOT EXISTS settled_at TIMESTAMP;
+
+  CREATE TABLE IF NOT EXISTS round_entries (
+    id SERIAL PRIMARY KEY,
+    round_id INTEGER NOT NULL,
+    user_id INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'alive',
+    eliminated_game_week_id INTEGER,
+    elimination_reason TEXT,
+    joined_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    UNIQUE(round_id, user_id)
+  );
+
+  ALTER TABLE users ADD COLUMN IF NOT EXISTS active_league_id INTEGER;
+  ALTER TABLE rounds ADD COLUMN IF NOT EXISTS league_id INTEGER;
+  ALTER TABLE rounds ADD COLUMN IF NOT EXISTS rules JSONB NOT NULL DEFAULT '{}';
+  ALTER TABLE round_entries ADD COLUMN IF NOT EXISTS lives_remaining INTEGER NOT NULL DEFAULT 1;
+  ALTER TABLE game_weeks ADD COLUMN IF NOT EXISTS deadline_processed_at TIMESTAMP;
+  ALTER TABLE picks ADD COLUMN IF NOT EXISTS is_auto_pick BOOLEAN NOT NULL DEFAULT FALSE;
+  ALTER TABLE seasons ADD COLUMN IF NOT EXISTS competition TEXT NOT NULL DEFAULT 'PL';
+  ALTER TABLE teams ADD COLUMN IF NOT EXISTS competition TEXT NOT NULL DEFAULT 'PL';
+  ALTER TABLE teams DROP CONSTRAINT IF EXISTS teams_name_key;
+  CREATE UNIQUE INDEX IF NOT EXISTS teams_name_competition_unique ON teams (name, competition);
+  ALTER TABLE users ADD COLUMN IF NOT EXISTS display_name TEXT;
+  ALTER TABLE users ADD COLUMN IF NOT EXISTS avatar_url TEXT;
+  ALTER TABLE users ADD COLUMN IF NOT EXISTS favourite_team_id INTEGER;
+  ALTER TABLE users ADD COLUMN IF NOT EXISTS notification_opt_outs JSONB NOT NULL DEFAULT '[]';
+  ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP;
+  ALTER TABLE users ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMP;
+  ALTER TABLE fixtures ADD COLUMN IF NOT EXISTS locked BOOLEAN NOT NULL DEFAULT FALSE;
+  ALTER TABLE picks ADD COLUMN IF NOT EXISTS is_void BOOLEAN NOT NULL DEFAULT FALSE;
+  -- Existing admins become super admins
+  DO $$
+  BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'users' AND column_name = 'is_admin') THEN
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'player';
+      UPDATE users SET role = 'super_admin' WHERE is_admin;
+      ALTER TABLE users DROP COLUMN is_admin;
+    END IF;
+  END $$;
+  -- Accounts that already share an email keep working; new ones are checked at registration
+  DO $$
+  BEGIN
+    CREATE UNIQUE INDEX IF NOT EXISTS users_email_lower_unique ON users (lower(email));
+  EXCEPTION WHEN unique_violation THEN
+    RAISE NOTICE 'users_email_lower_unique not created: existing accounts share an email address';
+  END $$;
+
+  CREATE TABLE IF NOT EXISTS leagues (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    owner_id INTEGER NOT NULL,
+    invite_code TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+  );
+
+  CREATE TABLE IF NOT EXISTS league_members (
+    id SERIAL PRIMARY KEY,
+    league_id INTEGER NOT NULL,
+    user_id INTEGER NOT NULL,
+    joined_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    UNIQUE(league_id, user_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS game_week_fixtures (
+    id SERIAL PRIMARY KEY,
+    game_week_id INTEGER NOT NULL,
+    fixture_id INTEGER NOT NULL,
+    UNIQUE(game_week_id, fixture_id)
+  );
+
+  -- Carry over assignments made before fixtures could belong to more than one game week
+  INSERT INTO game_week_fixtures (game_week_id, fixture_id)
+  SELECT game_week_id, id FROM fixtures WHERE game_week_id IS NOT NULL AND game_week_id <> 0
+  ON CONFLICT DO NOTHING;
+
+  CREATE TABLE IF NOT EXISTS job_runs (
+    id SERIAL PRIMARY KEY,
+    job TEXT NOT NULL,
+    trigger TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running',
+    inserted INTEGER NOT NULL DEFAULT 0,
+    updated INTEGER NOT NULL DEFAULT 0,
+    failed INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS auth_tokens (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    purpose TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    expires_at TIMESTAMP NOT NULL,
+    used_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+  );
+
+  CREATE TABLE IF NOT EXISTS notification_templates (
+    type TEXT PRIMARY KEY,
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+  );
+
+  CREATE TABLE IF NOT EXISTS notification_log (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    key TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    error TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    sent_at TIMESTAMP,
+    UNIQUE(user_id, type, key)
+  );
+
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id SERIAL PRIMARY KEY,
+    actor_id INTEGER,
+    action TEXT NOT NULL,
+    entity_type TEXT NOT NULL,
+    entity_id INTEGER,
+    before JSONB,
+    after JSONB,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+  );
+  -- The first audit log only tracked changes to users
+  DO $$
+  BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'audit_log' AND column_name = 'target_user_id') THEN
+      ALTER TABLE audit_log ALTER COLUMN actor_id DROP NOT NULL;
+      ALTER TABLE audit_log ADD COLUMN entity_type TEXT NOT NULL DEFAULT 'user';
+      ALTER TABLE audit_log ALTER COLUMN entity_type DROP DEFAULT;
+      ALTER TABLE audit_log ADD COLUMN entity_id INTEGER;
+      ALTER TABLE audit_log ADD COLUMN before JSONB;
+      ALTER TABLE audit_log ADD COLUMN after JSONB;
+      UPDATE audit_log SET
+        entity_id = target_user_id,
+        before = CASE action
+          WHEN 'user.role_changed' THEN jsonb_build_object('role', details->'from')
+          WHEN 'user.enabled' THEN details
+          WHEN 'round_entry.reset' THEN details->'from' || jsonb_build_object('roundId', details->'roundId')
+        END,
+        after = CASE action
+          WHEN 'user.role_changed' THEN jsonb_build_object('role', details->'to')
+          WHEN 'user.disabled' THEN jsonb_build_object('disabledAt', created_at)
+          WHEN 'round_entry.reset' THEN details->'to' || jsonb_build_object('roundId', details->'roundId')
+        END;
+      ALTER TABLE audit_log DROP COLUMN target_user_id, DROP COLUMN details;
+    END IF;
+  END $$;
+
+  CREATE TABLE IF NOT EXISTS pick_history (
+    id SERIAL PRIMARY KEY,
+    pick_id INTEGER NOT NULL,
+    user_id INTEGER NOT NULL,
+    game_week_id INTEGER NOT NULL,
+    action TEXT NOT NULL,
+    previous_team_id INTEGER,
+    previous_fixture_id INTEGER,
+    team_id INTEGER,
+    fixture_id INTEGER,
+    changed_at TIMESTAMP NOT NULL DEFAULT NOW()
+  );
+
+  -- Columns that were only ever added by drizzle-kit push, never by the startup script
+  ALTER TABLE teams ADD COLUMN IF NOT EXISTS short_name TEXT;
+  ALTER TABLE teams ADD COLUMN IF NOT EXISTS tla TEXT;
+  ALTER TABLE teams ADD COLUMN IF NOT EXISTS crest TEXT;
+  ALTER TABLE fixtures ADD COLUMN IF NOT EXISTS external_season_id INTEGER;
+  ALTER TABLE picks ADD COLUMN IF NOT EXISTS round_id INTEGER;
+  ALTER TABLE picks ADD COLUMN IF NOT EXISTS season_id INTEGER;
+  ALTER TABLE picks ADD COLUMN IF NOT EXISTS fixture_id INTEGER;
+  ALTER TABLE picks ADD COLUMN IF NOT EXISTS external_id INTEGER;
+  ALTER TABLE picks ADD COLUMN IF NOT EXISTS is_home_team BOOLEAN;
+  UPDATE picks p SET round_id = gw.round_id
+  FROM game_weeks gw WHERE p.round_id IS NULL AND gw.id = p.game_week_id;
+  UPDATE picks p SET season_id = r.season_id
+  FROM rounds r WHERE p.season_id IS NULL AND r.id = p.round_id;
+  UPDATE picks p SET fixture_id = f.id
+  FROM game_week_fixtures gwf JOIN fixtures f ON f.id = gwf.fixture_id
+  WHERE p.fixture_id IS NULL AND gwf.game_week_id = p.game_week_id AND p.team_id IN (f.home_team_id, f.away_team_id);
+  UPDATE picks p SET is_home_team = f.home_team_id = p.team_id
+  FROM fixtures f WHERE p.is_home_team IS NULL AND f.id = p.fixture_id;
+  -- Fails, and stops the adoption, if a pick couldn't be matched to its fixture
+  ALTER TABLE picks
+    ALTER COLUMN round_id SET NOT NULL,
+    ALTER COLUMN season_id SET NOT NULL,
+    ALTER COLUMN fixture_id SET NOT NULL,
+    ALTER COLUMN is_home_team SET NOT NULL;
+`;
@@ -0,0 +1,59 @@
+import type { Request, Response } from "express";
+import type { IStorage } from "./types";
+import type { LiveFixturesEvent, LiveFixtureUpdate } from "@shared/schema";
+
+// Proxies close idle connections, so a comment line is sent this often
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+const clients = new Set<Response>();
+
+// Holds a Server-Sent Events stream open for a signed-in player until they disconnect
+export function openLiveStream(req: Request, res: Response) {
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    // Stop nginx buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+  res.write("retry: 5000\n\n");
+  clients.add(res);
+
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+  });
+}
+
+function broadcast(event: string, data: unknown) {
+  const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  for (const client of Array.from(clients)) {
+    client.write(message);
+  }
+}
+
+// Pushes the current score and status of the given fixtures to every connected
+// client. Called after a sync or a manual result change has been saved.
+export async function publishFixtureUpdates(storage: IStorage, fixtureIds: number[]) {
+  if (fixtureIds.length === 0 || clients.size === 0) return;
+
+  const updates: LiveFixtureUpdate[] = [];
+  for (const fixtureId of fixtureIds) {
+    const fixture = await storage.getFixtureById(fixtureId);
+    if (!fixture) continue;
+
+    updates.push({
+      id: fixture.id,
+      status: fixture.status,
+      home_score: fixture.home_score,
+      away_score: fixture.away_score,
+      winner: fixture.winner,
+      gameWeekIds: await storage.getGameWeekIdsByFixture(fixture.id),
+    });
+  }
+
+  const event: LiveFixturesEvent = { fixtures: updates };
+  broadcast("fixtures", event);
+}
@@ -0,0 +1,24 @@
+import 'dotenv/config';
+import { db, pool } from "./db";
+import { runMigrations, checkSchemaDrift, SchemaDriftError } from "./migrations";
+
+// npm run db:migrate applies pending migrations, then checks for drift.
+// npm run db:check only checks, and exits non-zero if the schema has drifted.
+async function main() {
+  const checkOnly = process.argv.includes("--check");
+  try {
+    if (!checkOnly) {
+      await runMigrations(db);
+      console.log("Migrations applied");
+    }
+    await checkSchemaDrift(db);
+    console.log("Database schema matches shared/schema.ts");
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof SchemaDriftError ? error.message : error);
+  process.exit(1);
+});
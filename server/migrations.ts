@@ -0,0 +1,112 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { count, gt, max, sql } from "drizzle-orm";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import { readMigrationFiles } from "drizzle-orm/migrator";
+import { integrityIssues } from "@shared/schema";
+import type { Database } from "./db";
+import { LEGACY_SCHEMA_SQL } from "./legacy-schema";
+import { findSchemaDrift, getSchemaTables, type DatabaseColumn } from "./services/schema-drift";
+import { log } from "./vite";
+
+// Resolves the same from server/ under tsx and from dist/ once bundled
+export const MIGRATIONS_FOLDER = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..", "migrations");
+
+export class SchemaDriftError extends Error {
+  constructor(public problems: string[]) {
+    super(`Database schema doesn't match shared/schema.ts:\n  ${problems.join("\n  ")}`);
+    this.name = "SchemaDriftError";
+  }
+}
+
+// A database built by the old startup script has tables but no record of any
+// migration. Bring it level with the baseline and record the baseline as
+// applied, so the migrator doesn't try to create tables that already exist.
+async function adoptLegacyDatabase(db: Database) {
+  const { rows } = await db.execute<{ users: string | null; migrations: string | null }>(sql`
+    SELECT to_regclass('public.users') AS users, to_regclass('drizzle.__drizzle_migrations') AS migrations
+  `);
+  if (!rows[0].users || rows[0].migrations) return;
+
+  const [baseline] = readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER });
+  log("Adopting a database created before migrations");
+  await db.transaction(async (tx) => {
+    await tx.execute(sql.raw(LEGACY_SCHEMA_SQL));
+    await tx.execute(sql`CREATE SCHEMA IF NOT EXISTS drizzle`);
+    await tx.execute(sql`
+      CREATE TABLE IF NOT EXISTS drizzle.__drizzle_migrations (
+        id SERIAL PRIMARY KEY,
+        hash text NOT NULL,
+        created_at bigint
+      )
+    `);
+    await tx.execute(sql`
+      INSERT INTO drizzle.__drizzle_migrations (hash, created_at) VALUES (${baseline.hash}, ${baseline.folderMillis})
+    `);
+  });
+}
+
+async function lastIntegrityIssueId(db: Database) {
+  const { rows } = await db.execute<{ integrity_issues: string | null }>(sql`
+    SELECT to_regclass('public.integrity_issues') AS integrity_issues
+  `);
+  if (!rows[0].integrity_issues) return 0;
+  const [row] = await db.select({ id: max(integrityIssues.id) }).from(integrityIssues);
+  return row.id ?? 0;
+}
+
+// Rows a migration listed in integrity_issues during this run. Postgres warnings
+// aren't shown by the migrator, so they're summarised in the log instead.
+async function reportIntegrityIssues(db: Database, afterId: number) {
+  const rows = await db
+    .select({
+      tableName: integrityIssues.tableName,
+      constraintName: integrityIssues.constraintName,
+      count: count(),
+    })
+    .from(integrityIssues)
+    .where(gt(integrityIssues.id, afterId))
+    .groupBy(integrityIssues.tableName, integrityIssues.constraintName);
+
+  for (const row of rows) {
+    log(`${row.count} ${row.tableName} row(s) break ${row.constraintName}; see integrity_issues`);
+  }
+}
+
+// Constraints still waiting for an admin to fix the rows that break them
+async function reportUnvalidatedConstraints(db: Database) {
+  const { rows } = await db.execute<{ table_name: string; constraint_name: string }>(sql`
+    SELECT c.conrelid::regclass::text AS table_name, c.conname AS constraint_name
+    FROM pg_constraint c
+    JOIN pg_namespace n ON n.oid = c.connamespace
+    WHERE n.nspname = 'public' AND NOT c.convalidated
+  `);
+
+  for (const row of rows) {
+    log(
+      `Constraint ${row.constraint_name} isn't checked against existing ${row.table_name} rows yet; ` +
+      `fix the rows listed in integrity_issues, then run ALTER TABLE ${row.table_name} VALIDATE CONSTRAINT ${row.constraint_name}`
+    );
+  }
+}
+
+// Applies every migration in migrations/ that this database hasn't had yet
+export async function runMigrations(db: Database) {
+  const issuesBefore = await lastIntegrityIssueId(db);
+  await adoptLegacyDatabase(db);
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+  await reportIntegrityIssues(db, issuesBefore);
+  await reportUnvalidatedConstraints(db);
+}
+
+// Throws a SchemaDriftError listing every difference between the database and
+// the schema the code was written against
+export async function checkSchemaDrift(db: Database) {
+  const { rows } = await db.execute<DatabaseColumn & Record<string, unknown>>(sql`
+    SELECT table_name, column_name, data_type, is_nullable
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+  `);
+  const problems = findSchemaDrift(getSchemaTables(), rows);
+  if (problems.length > 0) throw new SchemaDriftError(problems);
+}
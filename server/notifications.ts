@@ -0,0 +1,206 @@
+import { format } from "date-fns";
+import type { IStorage } from "./types";
+import { log } from "./vite";
+import { getAppUrl } from "./services/app-url";
+import { getEmailTransport, type EmailTransport } from "./services/email-transport";
+import { renderNotification, resolveTemplate, type TemplateVariables } from "./services/notification-templates";
+import type {
+  EliminationReason, League, NotificationTemplate, NotificationType, User,
+} from "@shared/schema";
+
+const NOTIFICATION_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const HOUR = 60 * 60 * 1000;
+const REMINDER_WINDOW_MS = 24 * HOUR;
+// Only recently settled weeks are announced, so emails aren't sent for old history
+const RESULTS_LOOKBACK_MS = 48 * HOUR;
+
+const eliminationReasonText: Record<EliminationReason, string> = {
+  lost: "your team lost",
+  drew: "your team drew",
+  no_pick: "you didn't make a pick",
+};
+
+interface NotificationContext {
+  storage: IStorage;
+  transport: EmailTransport;
+  templates: NotificationTemplate[];
+  sent: number;
+  failed: number;
+}
+
+function playerName(user: User) {
+  return user.displayName || user.username;
+}
+
+function leagueVariables(league: League | undefined, roundNumber: number): TemplateVariables {
+  return {
+    leagueName: league?.name ?? "the public game",
+    roundNumber,
+    appUrl: getAppUrl(),
+  };
+}
+
+// Sends one email unless the player opted out of its type or already got it
+async function notify(
+  ctx: NotificationContext,
+  user: User,
+  type: NotificationType,
+  key: string,
+  variables: TemplateVariables,
+) {
+  if (user.notificationOptOuts.includes(type)) return;
+
+  const claim = await ctx.storage.claimNotification(user.id, type, key);
+  if (!claim) return;
+
+  try {
+    const { subject, body } = renderNotification(
+      resolveTemplate(type, ctx.templates),
+      { playerName: playerName(user), ...variables },
+    );
+    await ctx.transport.send({ to: user.email, subject, text: body });
+    await ctx.storage.finishNotification(claim.id);
+    ctx.sent++;
+  } catch (error) {
+    console.error(`Error sending ${type} email to user ${user.id}:`, error);
+    await ctx.storage.finishNotification(claim.id, error instanceof Error ? error.message : String(error));
+    ctx.failed++;
+  }
+}
+
+// Reminds players without a pick when a deadline is less than a day away
+async function sendDeadlineReminders(ctx: NotificationContext, now: Date) {
+  const { storage } = ctx;
+  const gameWeeks = await storage.getGameWeeksWithDeadlineBetween(now, new Date(now.getTime() + REMINDER_WINDOW_MS));
+
+  for (const gameWeek of gameWeeks) {
+    const round = await storage.getRound(gameWeek.roundId);
+    if (!round) continue;
+
+    const league = round.leagueId !== null ? await storage.getLeague(round.leagueId) : undefined;
+    const pickedIds = new Set((await storage.getPicksByGameWeek(gameWeek.id)).map(p => p.userId));
+    const userIds = (await storage.getPotentialPickerIds(gameWeek)).filter(id => !pickedIds.has(id));
+
+    for (const user of await storage.getUsersByIds(userIds)) {
+      await notify(ctx, user, "deadline_reminder", `game_week:${gameWeek.id}`, {
+        ...leagueVariables(league, round.number),
+        gameWeekNumber: gameWeek.number,
+        deadline: format(new Date(gameWeek.deadline), "EEEE d MMMM 'at' HH:mm"),
+      });
+    }
+  }
+}
+
+// Sends each settled week's results to everyone who played it, plus elimination
+// notices and, once the round is over, the winner announcement
+async function sendGameWeekResults(ctx: NotificationContext, now: Date) {
+  const { storage } = ctx;
+  const gameWeeks = await storage.getGameWeeksSettledSince(new Date(now.getTime() - RESULTS_LOOKBACK_MS));
+  if (gameWeeks.length === 0) return;
+
+  const teams = await storage.getTeams();
+
+  for (const gameWeek of gameWeeks) {
+    const round = await storage.getRound(gameWeek.roundId);
+    if (!round) continue;
+
+    const league = round.leagueId !== null ? await storage.getLeague(round.leagueId) : undefined;
+    const entries = await storage.getRoundEntries(round.id);
+    const gameWeekPicks = await storage.getPicksByGameWeek(gameWeek.id);
+
+    // Anyone not knocked out in an earlier week played this one
+    const played = entries.filter(e => e.status !== "eliminated" || e.eliminatedGameWeekId === gameWeek.id);
+    const eliminated = played.filter(e => e.status === "eliminated");
+    const winners = entries.filter(e => e.status === "winner");
+
+    // Winners are decided in the last settled week of the round
+    const settledWeeks = (await storage.getGameWeeksByRound(round.id)).filter(gw => gw.settledAt);
+    const isFinalWeek = winners.length > 0 && settledWeeks.every(gw => gw.number <= gameWeek.number);
+
+    const users = new Map((await storage.getUsersByIds(entries.map(e => e.userId))).map(u => [u.id, u]));
+    const common = {
+      ...leagueVariables(league, round.number),
+      gameWeekNumber: gameWeek.number,
+      survivors: played.length - eliminated.length,
+      eliminations: eliminated.length,
+    };
+
+    for (const entry of played) {
+      const user = users.get(entry.userId);
+      if (!user) continue;
+
+      const pick = gameWeekPicks.find(p => p.userId === entry.userId);
+      const teamName = teams.find(t => t.id === pick?.teamId)?.name ?? "no team";
+      const outcome = entry.status === "winner" && isFinalWeek
+        ? "You won the round!"
+        : entry.status === "eliminated"
+          ? `You were knocked out (you picked ${teamName}).`
+          : `You survived with ${teamName}.`;
+
+      await notify(ctx, user, "game_week_results", `game_week:${gameWeek.id}`, { ...common, outcome, teamName });
+
+      if (entry.status === "eliminated") {
+        await notify(ctx, user, "eliminated", `round:${round.id}`, {
+          ...common,
+          teamName,
+          reason: eliminationReasonText[entry.eliminationReason ?? "lost"],
+        });
+      }
+    }
+
+    if (isFinalWeek) {
+      const winnerNames = winners.map(e => users.get(e.userId)).filter((u): u is User => !!u).map(playerName);
+      for (const entry of entries) {
+        const user = users.get(entry.userId);
+        if (!user) continue;
+        await notify(ctx, user, "round_winner", `round:${round.id}`, {
+          ...leagueVariables(league, round.number),
+          winners: winnerNames.join(" and "),
+        });
+      }
+    }
+  }
+}
+
+// Sends every email that is due. Safe to run repeatedly: each email is only sent once.
+export async function processNotifications(
+  storage: IStorage,
+  now: Date = new Date(),
+  transport: EmailTransport = getEmailTransport(),
+) {
+  const ctx: NotificationContext = {
+    storage,
+    transport,
+    templates: await storage.getNotificationTemplates(),
+    sent: 0,
+    failed: 0,
+  };
+
+  await sendDeadlineReminders(ctx, now);
+  await sendGameWeekResults(ctx, now);
+
+  if (ctx.sent > 0 || ctx.failed > 0) {
+    log(`Notifications via ${transport.name}: ${ctx.sent} sent, ${ctx.failed} failed`);
+  }
+  return { sent: ctx.sent, failed: ctx.failed };
+}
+
+let isProcessing = false;
+
+// Checks for emails to send every few minutes, skipping a check if the last one is still running
+export function startNotificationJob(storage: IStorage) {
+  const check = async () => {
+    if (isProcessing) return;
+    isProcessing = true;
+    try {
+      await processNotifications(storage);
+    } catch (error) {
+      console.error("Error sending notifications:", error);
+    } finally {
+      isProcessing = false;
+    }
+  };
+
+  check();
+  return setInterval(check, NOTIFICATION_CHECK_INTERVAL_MS);
+}
@@ -1,28 +1,72 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { setupAuth } from "./auth";
-import { storage } from "./storage";
-import { insertSeasonSchema, insertGameWeekSchema, insertFixtureSchema, insertPickSchema, insertRoundSchema } from "@shared/schema";
-import { fetchFixtures } from "./services/football-data";
+import { setupAuth, requireRole, toPublicUser } from "./auth";
+import type { IStorage } from "./types";
+import {
+  insertSeasonSchema, insertGameWeekSchema, insertFixtureSchema, insertPickSchema, insertRoundSchema,
+  insertLeagueSchema, joinLeagueSchema, roundRulesSchema, updateProfileSchema, parseRoundRules,
+  notificationTypes, notificationPreferencesSchema, updateNotificationTemplateSchema, updateUserRoleSchema,
+  auditLogQuerySchema, fixtureResultSchema, hasRole, type Round, type Season, type JobRun, type NotificationType
+} from "@shared/schema";
+import { runFixtureSync } from "./scheduler";
+import { openLiveStream, publishFixtureUpdates } from "./live-updates";
+import { validatePick, checkPickLock, canRepick } from "./services/pick-validation";
+import { getAvailableTeams } from "./services/team-availability";
+import { buildGameWeekPicks } from "./services/pick-visibility";
+import { resolveTemplate } from "./services/notification-templates";
 import { format } from "date-fns";
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  setupAuth(app);
+// Public rounds are open to everyone, league rounds only to members and admins
+async function canViewRound(storage: IStorage, user: Express.User, round: Round): Promise<boolean> {
+  if (round.leagueId === null || hasRole(user, "super_admin")) return true;
+  return storage.isLeagueMember(round.leagueId, user.id);
+}
+
+// Super admins manage the public game and every league, organisers only the leagues they own
+async function canManageLeague(storage: IStorage, user: Express.User, leagueId: number | null): Promise<boolean> {
+  if (hasRole(user, "super_admin")) return true;
+  if (leagueId === null || !hasRole(user, "organiser")) return false;
+  const league = await storage.getLeague(leagueId);
+  return league?.ownerId === user.id;
+}
+
+async function canManageGameWeek(storage: IStorage, user: Express.User, gameWeekId: number): Promise<boolean> {
+  const gameWeek = await storage.getGameWeek(gameWeekId);
+  const round = gameWeek && await storage.getRound(gameWeek.roundId);
+  return !!round && canManageLeague(storage, user, round.leagueId);
+}
+
+// Leagues an organiser can see on the admin pages; null means all of them
+async function getManagedLeagueIds(storage: IStorage, user: Express.User): Promise<Set<number> | null> {
+  if (hasRole(user, "super_admin")) return null;
+  const leagues = await storage.getAllLeagues();
+  return new Set(leagues.filter(l => l.ownerId === user.id).map(l => l.id));
+}
+
+// A game week only takes fixtures from its round's season, so returns the ids that aren't in it
+async function getFixturesOutsideSeason(storage: IStorage, fixtureIds: number[], seasonId: number): Promise<number[]> {
+  const seasonFixtures = await storage.getFixturesBySeason(seasonId);
+  const seasonFixtureIds = new Set(seasonFixtures.map(f => f.id));
+  return fixtureIds.filter(id => !seasonFixtureIds.has(id));
+}
+
+export async function registerRoutes(app: Express, storage: IStorage): Promise<Server> {
+  setupAuth(app, storage);
 
   // Admin routes
-  app.get("/api/fixtures/available", async (req, res) => {
-    if (!req.user?.isAdmin) {
-      return res.status(403).send("Admin access required");
-    }
-
+  app.get("/api/fixtures/available", requireRole("organiser"), async (req, res) => {
     try {
       const seasonId = parseInt(req.query.seasonId as string);
       if (!seasonId) {
         return res.status(400).send("Season ID is required");
       }
 
-      // Get unassigned fixtures for the season
-      const fixturesWithTeams = await storage.getUnassignedFixturesBySeasonId(seasonId);
+      // Get fixtures for the season not yet used by the league
+      const leagueId = req.query.leagueId ? parseInt(req.query.leagueId as string) : null;
+      if (!(await canManageLeague(storage, req.user!, leagueId))) {
+        return res.status(403).send("You can only manage leagues you organise");
+      }
+      const fixturesWithTeams = await storage.getUnassignedFixturesBySeasonId(seasonId, leagueId);
       res.json(fixturesWithTeams);
     } catch (error) {
       console.error("Error fetching fixtures:", error);
@@ -35,78 +79,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(401).send("Authentication required");
     }
 
-    const teams = await storage.getTeams();
+    const competition = typeof req.query.competition === "string" ? req.query.competition : undefined;
+    const teams = competition ? await storage.getTeamsByCompetition(competition) : await storage.getTeams();
     res.json(teams);
   });
 
-  // Get all seasons
-  app.get("/api/seasons/all", async (req, res) => {
-    if (!req.user?.isAdmin) {
-      return res.status(403).send("Admin access required");
+  // Seasons players can look back on in the standings
+  app.get("/api/seasons", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
     }
 
     const seasons = await storage.getAllSeasons();
     res.json(seasons);
   });
 
-  // Get all rounds
-  app.get("/api/rounds/all", async (req, res) => {
-    if (!req.user?.isAdmin) {
-      return res.status(403).send("Admin access required");
-    }
+  // Get all seasons
+  app.get("/api/seasons/all", requireRole("organiser"), async (req, res) => {
+    const seasons = await storage.getAllSeasons();
+    res.json(seasons);
+  });
 
+  // Get all rounds
+  app.get("/api/rounds/all", requireRole("organiser"), async (req, res) => {
     const rounds = await storage.getAllRounds();
-    res.json(rounds);
+    const leagueIds = await getManagedLeagueIds(storage, req.user!);
+    res.json(leagueIds ? rounds.filter(r => r.leagueId !== null && leagueIds.has(r.leagueId)) : rounds);
   });
 
   // Get all game weeks
-  app.get("/api/game-weeks/all", async (req, res) => {
-    if (!req.user?.isAdmin) {
-      return res.status(403).send("Admin access required");
+  app.get("/api/game-weeks/all", requireRole("organiser"), async (req, res) => {
+    const gameWeeks = await storage.getAllGameWeeks();
+    const leagueIds = await getManagedLeagueIds(storage, req.user!);
+    if (!leagueIds) {
+      return res.json(gameWeeks);
     }
 
-    const gameWeeks = await storage.getAllGameWeeks();
-    res.json(gameWeeks);
+    const roundIds = new Set((await storage.getAllRounds())
+      .filter(r => r.leagueId !== null && leagueIds.has(r.leagueId))
+      .map(r => r.id));
+    res.json(gameWeeks.filter(gw => roundIds.has(gw.roundId)));
   });
 
   // Set active season
-  app.post("/api/seasons/:id/activate", async (req, res) => {
-    if (!req.user?.isAdmin) {
-      return res.status(403).send("Admin access required");
-    }
-
+  app.post("/api/seasons/:id/activate", requireRole("super_admin"), async (req, res) => {
     const seasonId = parseInt(req.params.id);
-    await storage.setActiveSeason(seasonId);
+    await storage.setActiveSeason(seasonId, req.user!.id);
     res.sendStatus(200);
   });
 
   // Set active round
-  app.post("/api/rounds/:id/activate", async (req, res) => {
-    if (!req.user?.isAdmin) {
-      return res.status(403).send("Admin access required");
+  app.post("/api/rounds/:id/activate", requireRole("organiser"), async (req, res) => {
+    const roundId = parseInt(req.params.id);
+    const round = await storage.getRound(roundId);
+    if (!round) {
+      return res.status(404).send("Round not found");
+    }
+    if (!(await canManageLeague(storage, req.user!, round.leagueId))) {
+      return res.status(403).send("You can only manage leagues you organise");
     }
 
-    const roundId = parseInt(req.params.id);
-    await storage.setActiveRound(roundId);
+    await storage.setActiveRound(roundId, req.user!.id);
     res.sendStatus(200);
   });
 
   // Set active game week
-  app.post("/api/game-weeks/:id/activate", async (req, res) => {
-    if (!req.user?.isAdmin) {
-      return res.status(403).send("Admin access required");
+  app.post("/api/game-weeks/:id/activate", requireRole("organiser"), async (req, res) => {
+    const gameWeekId = parseInt(req.params.id);
+    if (!(await canManageGameWeek(storage, req.user!, gameWeekId))) {
+      return res.status(403).send("You can only manage leagues you organise");
     }
 
-    const gameWeekId = parseInt(req.params.id);
-    await storage.setActiveGameWeek(gameWeekId);
+    await storage.setActiveGameWeek(gameWeekId, req.user!.id);
     res.sendStatus(200);
   });
 
-  app.post("/api/seasons", async (req, res) => {
-    if (!req.user?.isAdmin) {
-      return res.status(403).send("Admin access required");
-    }
-
+  app.post("/api/seasons", requireRole("super_admin"), async (req, res) => {
     const parsed = insertSeasonSchema.safeParse(req.body);
     if (!parsed.success) {
       return res.status(400).json(parsed.error);
@@ -119,42 +167,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(201).json(season);
   });
 
-  app.post("/api/rounds", async (req, res) => {
-    if (!req.user?.isAdmin) {
-      return res.status(403).send("Admin access required");
-    }
-
+  app.post("/api/rounds", requireRole("organiser"), async (req, res) => {
     const parsed = insertRoundSchema.safeParse(req.body);
     if (!parsed.success) {
       return res.status(400).json(parsed.error);
     }
 
+    const leagueId = parsed.data.leagueId ?? null;
+    if (leagueId !== null && !(await storage.getLeague(leagueId))) {
+      return res.status(400).json({ error: "League not found" });
+    }
+    if (!(await canManageLeague(storage, req.user!, leagueId))) {
+      return res.status(403).send("You can only manage leagues you organise");
+    }
+
     const round = await storage.createRound({
       ...parsed.data,
+      leagueId,
       isActive: parsed.data.isActive ?? false,
     });
     res.status(201).json(round);
   });
 
-  app.post("/api/game-weeks", async (req, res) => {
-    if (!req.user?.isAdmin) {
-      return res.status(403).send("Admin access required");
+  // Rules can only change before anyone has entered the round
+  app.put("/api/rounds/:id/rules", requireRole("organiser"), async (req, res) => {
+    const roundId = parseInt(req.params.id);
+    if (isNaN(roundId)) {
+      return res.status(400).json({ error: "Invalid round ID" });
     }
 
+    const parsed = roundRulesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json(parsed.error);
+    }
+
+    const round = await storage.getRound(roundId);
+    if (!round) {
+      return res.status(404).send("Round not found");
+    }
+    if (!(await canManageLeague(storage, req.user!, round.leagueId))) {
+      return res.status(403).send("You can only manage leagues you organise");
+    }
+
+    const entries = await storage.getRoundEntries(roundId);
+    if (entries.length > 0) {
+      return res.status(409).json({ error: "Rules can't be changed once players have entered the round" });
+    }
+
+    const updated = await storage.updateRoundRules(roundId, parsed.data);
+    res.json(updated);
+  });
+
+  app.post("/api/game-weeks", requireRole("organiser"), async (req, res) => {
     const parsed = insertGameWeekSchema.safeParse(req.body);
     if (!parsed.success) {
       return res.status(400).json(parsed.error);
     }
 
+    const round = await storage.getRound(parsed.data.roundId);
+    if (!round) {
+      return res.status(400).json({ error: "Round not found" });
+    }
+    if (!(await canManageLeague(storage, req.user!, round.leagueId))) {
+      return res.status(403).send("You can only manage leagues you organise");
+    }
+
+    const fixtureIds: number[] | undefined = Array.isArray(req.body.fixtureIds) ? req.body.fixtureIds : undefined;
+
     try {
+      if (fixtureIds) {
+        const outside = await getFixturesOutsideSeason(storage, fixtureIds, round.seasonId);
+        if (outside.length > 0) {
+          return res.status(400).json({ error: `Fixtures ${outside.join(", ")} aren't in this round's season` });
+        }
+      }
+
       const gameWeek = await storage.createGameWeek({
         ...parsed.data,
         isActive: parsed.data.isActive ?? false,
+        settledAt: null,
+        deadlineProcessedAt: null,
       });
 
-      // Update fixtures with the new game week ID
-      if (req.body.fixtureIds && Array.isArray(req.body.fixtureIds)) {
-        await storage.updateFixturesGameWeek(req.body.fixtureIds, gameWeek.id);
+      // Assign the selected fixtures to the new game week
+      if (fixtureIds) {
+        await storage.updateFixturesGameWeek(fixtureIds, gameWeek.id, req.user!.id);
       }
 
       res.status(201).json(gameWeek);
@@ -164,11 +261,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/fixtures", async (req, res) => {
-    if (!req.user?.isAdmin) {
-      return res.status(403).send("Admin access required");
-    }
-
+  app.post("/api/fixtures", requireRole("super_admin"), async (req, res) => {
     const parsed = insertFixtureSchema.safeParse(req.body);
     if (!parsed.success) {
       return res.status(400).json(parsed.error);
@@ -185,11 +278,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Add new route to get all fixtures with team data
-  app.get("/api/fixtures/all", async (req, res) => {
-    if (!req.user?.isAdmin) {
-      return res.status(403).send("Admin access required");
-    }
-
+  app.get("/api/fixtures/all", requireRole("super_admin"), async (req, res) => {
     try {
       console.log('Fetching all fixtures with teams...');
       const fixturesWithTeams = await storage.getAllFixturesWithTeams();
@@ -201,93 +290,192 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/fixtures/sync", async (req, res) => {
-    if (!req.user?.isAdmin) {
-      return res.status(403).send("Admin access required");
-    }
-
+  app.post("/api/fixtures/sync", requireRole("super_admin"), async (req, res) => {
     try {
       const { dateFrom, dateTo } = req.body;
-      console.log('Syncing fixtures with date range:', { dateFrom, dateTo });
-
-      const fixtures = await fetchFixtures(dateFrom, dateTo);
-      console.log(`Received ${fixtures.length} fixtures from API`);
-
-      // Get the active season
-      const activeSeason = await storage.getActiveSeason();
-      if (!activeSeason) {
-        throw new Error("No active season found");
-      }
-
-      // Update or insert each fixture
-      for (const fixture of fixtures) {
-        // First ensure we have both teams in our database
-        const homeTeam = await storage.createTeam({
-          name: fixture.homeTeam.name,
-          short_name: fixture.homeTeam.shortName,
-          tla: fixture.homeTeam.tla,
-          crest: fixture.homeTeam.crest,
-        }).catch(async (err) => {
-          const teams = await storage.getTeams();
-          const existingTeam = teams.find(t => t.name === fixture.homeTeam.name);
-          if (existingTeam) {
-            return storage.updateTeam(existingTeam.id, {
-              short_name: fixture.homeTeam.shortName,
-              tla: fixture.homeTeam.tla,
-              crest: fixture.homeTeam.crest,
-            });
-          }
-          return existingTeam;
-        });
-
-        const awayTeam = await storage.createTeam({
-          name: fixture.awayTeam.name,
-          short_name: fixture.awayTeam.shortName,
-          tla: fixture.awayTeam.tla,
-          crest: fixture.awayTeam.crest,
-        }).catch(async (err) => {
-          const teams = await storage.getTeams();
-          const existingTeam = teams.find(t => t.name === fixture.awayTeam.name);
-          if (existingTeam) {
-            return storage.updateTeam(existingTeam.id, {
-              short_name: fixture.awayTeam.shortName,
-              tla: fixture.awayTeam.tla,
-              crest: fixture.awayTeam.crest,
-            });
-          }
-          return existingTeam;
-        });
-
-        if (!homeTeam || !awayTeam) {
-          console.error('Failed to find or create teams for fixture:', fixture);
-          continue;
+
+      // Sync every season being played unless the admin is preparing another one
+      let seasons: Season[];
+      if (req.body.seasonId) {
+        const season = await storage.getSeason(parseInt(req.body.seasonId));
+        if (!season) {
+          return res.status(404).json({ error: "Season not found" });
         }
+        seasons = [season];
+      } else {
+        seasons = await storage.getActiveSeasons();
+        if (seasons.length === 0) {
+          return res.status(404).json({ error: "No active season found" });
+        }
+      }
+
+      const runs: JobRun[] = [];
+      for (const season of seasons) {
+        const run = await runFixtureSync(storage, "manual", season, dateFrom, dateTo, req.user!.id);
+        if (!run) {
+          return res.status(409).json({ error: "A fixture sync is already running", runs });
+        }
+        runs.push(run);
+      }
 
-        // Update or insert the fixture using the active season ID
-        await storage.createOrUpdateFixture({
-          external_id: fixture.id,
-          home_team_id: homeTeam.id,
-          away_team_id: awayTeam.id,
-          home_score: fixture.score.fullTime.home,
-          away_score: fixture.score.fullTime.away,
-          kickoff: new Date(fixture.utcDate),
-          status: fixture.status,
-          winner: fixture.score.winner,
-          external_season_id: fixture.season?.id || null, // External season ID from the API
-          season_id: activeSeason.id, // Internal season reference
-          round_id: null, // Placeholder for round_id
-          selected: false,
-          game_week_id: null,
-        });
-      }
-
-      res.json({ message: `Successfully synced ${fixtures.length} fixtures` });
+      const failedRun = runs.find(run => run.status === "failed");
+      if (failedRun) {
+        return res.status(500).json({ error: failedRun.error ?? "Failed to sync fixtures", runs });
+      }
+
+      const total = (key: "inserted" | "updated" | "failed") => runs.reduce((sum, run) => sum + run[key], 0);
+      res.json({
+        message: `Synced fixtures for ${seasons.map(s => s.name).join(", ")}: ` +
+          `${total("inserted")} inserted, ${total("updated")} updated, ${total("failed")} failed`,
+        runs,
+      });
     } catch (error) {
       console.error("Error syncing fixtures:", error);
       res.status(500).json({ error: error instanceof Error ? error.message : "Failed to sync fixtures" });
     }
   });
 
+  // Recent runs of the background jobs, newest first
+  app.get("/api/job-runs", requireRole("super_admin"), async (req, res) => {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const job = typeof req.query.job === "string" ? req.query.job : undefined;
+    res.json(await storage.getJobRuns(limit, job));
+  });
+
+  // Who changed what, newest first
+  app.get("/api/audit-log", requireRole("super_admin"), async (req, res) => {
+    const parsed = auditLogQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json(parsed.error);
+    }
+
+    res.json(await storage.getAuditLog(parsed.data));
+  });
+
+  // Settle picks for a single fixture on demand
+  app.post("/api/fixtures/:id/settle", requireRole("super_admin"), async (req, res) => {
+    try {
+      const fixtureId = parseInt(req.params.id);
+      if (isNaN(fixtureId)) {
+        return res.status(400).json({ error: "Invalid fixture ID" });
+      }
+
+      const fixture = await storage.getFixtureById(fixtureId);
+      if (!fixture) {
+        return res.status(404).send("Fixture not found");
+      }
+
+      const result = await storage.settlePicksForFixture(fixtureId, req.user!.id);
+      res.json(result);
+    } catch (error) {
+      console.error("Error settling fixture:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to settle fixture" });
+    }
+  });
+
+  // Correct a fixture's result by hand, optionally locking it against the next sync
+  app.put("/api/fixtures/:id/result", requireRole("super_admin"), async (req, res) => {
+    const fixtureId = parseInt(req.params.id);
+    if (isNaN(fixtureId)) {
+      return res.status(400).json({ error: "Invalid fixture ID" });
+    }
+
+    const parsed = fixtureResultSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json(parsed.error);
+    }
+
+    try {
+      const fixture = await storage.getFixtureById(fixtureId);
+      if (!fixture) {
+        return res.status(404).send("Fixture not found");
+      }
+
+      const updated = await storage.overrideFixtureResult(fixtureId, parsed.data, req.user!.id);
+      await publishFixtureUpdates(storage, [fixtureId]);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error overriding fixture result:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to update fixture" });
+    }
+  });
+
+  // Server-Sent Events stream of score, status and pick result changes
+  app.get("/api/live", (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+    openLiveStream(req, res);
+  });
+
+  // Settle picks for every fixture in a game week
+  app.post("/api/game-weeks/:id/settle", requireRole("super_admin"), async (req, res) => {
+    try {
+      const gameWeekId = parseInt(req.params.id);
+      if (isNaN(gameWeekId)) {
+        return res.status(400).json({ error: "Invalid game week ID" });
+      }
+
+      const gameWeek = await storage.getGameWeek(gameWeekId);
+      if (!gameWeek) {
+        return res.status(404).send("Game week not found");
+      }
+
+      const gameWeekFixtures = await storage.getFixturesByGameWeek(gameWeekId);
+      const results = [];
+      for (const fixture of gameWeekFixtures) {
+        results.push(await storage.settlePicksForFixture(fixture.id, req.user!.id));
+      }
+
+      // Settling the last fixture applies eliminations, but an admin may also be re-running an earlier week
+      if (await storage.isGameWeekReadyToSettle(gameWeekId)) {
+        await storage.settleGameWeek(gameWeekId, req.user!.id);
+      }
+
+      const updatedGameWeek = await storage.getGameWeek(gameWeekId);
+      res.json({
+        fixtures: results,
+        gameWeekSettled: !!updatedGameWeek?.settledAt,
+        standings: await storage.getRoundStandings(gameWeek.roundId),
+      });
+    } catch (error) {
+      console.error("Error settling game week:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to settle game week" });
+    }
+  });
+
+  // Deal with missed picks now rather than waiting for the deadline job
+  app.post("/api/game-weeks/:id/process-deadline", requireRole("organiser"), async (req, res) => {
+    try {
+      const gameWeekId = parseInt(req.params.id);
+      if (isNaN(gameWeekId)) {
+        return res.status(400).json({ error: "Invalid game week ID" });
+      }
+
+      const gameWeek = await storage.getGameWeek(gameWeekId);
+      if (!gameWeek) {
+        return res.status(404).send("Game week not found");
+      }
+      if (!(await canManageGameWeek(storage, req.user!, gameWeekId))) {
+        return res.status(403).send("You can only manage leagues you organise");
+      }
+
+      if (new Date() < new Date(gameWeek.deadline)) {
+        return res.status(409).json({ error: "The deadline for this game week hasn't passed yet" });
+      }
+
+      const result = await storage.processGameWeekDeadline(gameWeekId);
+      if (!result) {
+        return res.status(409).json({ error: "Missed picks for this game week have already been processed, or are being processed now" });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error processing game week deadline:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to process deadline" });
+    }
+  });
+
   // Player routes
   app.post("/api/picks", async (req, res) => {
     if (!req.user) {
@@ -295,19 +483,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
-      const { teamId, fixtureId } = req.body;
+      const teamId = parseInt(req.body.teamId);
+      const fixtureId = parseInt(req.body.fixtureId);
       
       if (!teamId || !fixtureId) {
         return res.status(400).json({ error: "Team ID and Fixture ID are required" });
       }
 
       // Get the current active data
-      const season = await storage.getActiveSeason();
-      if (!season) {
-        return res.status(404).send("No active season");
-      }
-
-      const round = await storage.getActiveRound(season.id);
+      const round = await storage.getActiveRound(req.user.activeLeagueId);
       if (!round) {
         return res.status(404).send("No active round");
       }
@@ -323,20 +507,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).send("Fixture not found");
       }
 
-      // Determine if the team is the home or away team
-      const isHomeTeam = fixture.home_team_id === teamId;
-      const isAwayTeam = fixture.away_team_id === teamId;
+      // Enforce the deadline, kickoff and team reuse rules on the server
+      const entry = await storage.getRoundEntry(round.id, req.user.id);
+      const roundGameWeeks = await storage.getGameWeeksByRound(round.id);
+      const roundPicks = await storage.getPicksByGameWeeks(req.user.id, roundGameWeeks.map(gw => gw.id));
+
+      const gameWeekFixtureIds = (await storage.getFixturesByGameWeek(gameWeek.id)).map(f => f.id);
 
-      if (!isHomeTeam && !isAwayTeam) {
-        return res.status(400).json({ error: "Selected team is not part of the fixture" });
+      const validationError = validatePick({
+        gameWeek, gameWeekFixtureIds, fixture, teamId, rules: parseRoundRules(round.rules), entry, roundGameWeeks, roundPicks,
+      });
+      if (validationError) {
+        const { status, ...body } = validationError;
+        return res.status(status).json(body);
       }
 
+      const isHomeTeam = fixture.home_team_id === teamId;
+
       const pickData = {
         userId: req.user.id,
         teamId: teamId,
         gameWeekId: gameWeek.id,
         roundId: round.id,
-        seasonId: season.id,
+        seasonId: round.seasonId,
         fixtureId: fixtureId,
         externalId: fixture.external_id,
         isHomeTeam: isHomeTeam,
@@ -357,37 +550,702 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Change a pick before the deadline or the kickoff of its fixture
+  app.put("/api/picks/:id", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    try {
+      const pickId = parseInt(req.params.id);
+      const teamId = parseInt(req.body.teamId);
+      const fixtureId = parseInt(req.body.fixtureId);
+
+      if (isNaN(pickId) || !teamId || !fixtureId) {
+        return res.status(400).json({ error: "Pick ID, Team ID and Fixture ID are required" });
+      }
+
+      const pick = await storage.getPick(pickId);
+      if (!pick || pick.userId !== req.user.id) {
+        return res.status(404).send("Pick not found");
+      }
+
+      const gameWeek = await storage.getGameWeek(pick.gameWeekId);
+      const currentFixture = await storage.getFixtureById(pick.fixtureId);
+      const fixture = await storage.getFixtureById(fixtureId);
+      if (!gameWeek || !currentFixture || !fixture) {
+        return res.status(404).send("Fixture not found");
+      }
+
+      const round = await storage.getRound(pick.roundId);
+      if (!round) {
+        return res.status(404).send("Round not found");
+      }
+      const rules = parseRoundRules(round.rules);
+
+      // The existing pick must still be unlocked before it can be swapped, unless
+      // its fixture was called off and the round lets players pick again
+      const isRepick = canRepick(gameWeek, currentFixture, rules);
+      const lockError = isRepick ? null : checkPickLock(gameWeek, currentFixture);
+      if (lockError) {
+        const { status, ...body } = lockError;
+        return res.status(status).json(body);
+      }
+
+      const entry = await storage.getRoundEntry(pick.roundId, req.user.id);
+      const roundGameWeeks = await storage.getGameWeeksByRound(pick.roundId);
+      const roundPicks = await storage.getPicksByGameWeeks(req.user.id, roundGameWeeks.map(gw => gw.id));
+      const gameWeekFixtureIds = (await storage.getFixturesByGameWeek(gameWeek.id)).map(f => f.id);
+
+      const validationError = validatePick({
+        gameWeek, gameWeekFixtureIds, fixture, teamId, rules, entry, roundGameWeeks, roundPicks,
+        replacingPickId: pick.id,
+        isRepick,
+      });
+      if (validationError) {
+        const { status, ...body } = validationError;
+        return res.status(status).json(body);
+      }
+
+      const updated = await storage.updatePick(pick.id, {
+        teamId,
+        fixtureId,
+        externalId: fixture.external_id,
+        isHomeTeam: fixture.home_team_id === teamId,
+        pickedAt: new Date(),
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error changing pick:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to change pick" });
+    }
+  });
+
+  // Withdraw a pick before the deadline or the kickoff of its fixture
+  app.delete("/api/picks/:id", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    try {
+      const pickId = parseInt(req.params.id);
+      if (isNaN(pickId)) {
+        return res.status(400).json({ error: "Invalid pick ID" });
+      }
+
+      const pick = await storage.getPick(pickId);
+      if (!pick || pick.userId !== req.user.id) {
+        return res.status(404).send("Pick not found");
+      }
+
+      const gameWeek = await storage.getGameWeek(pick.gameWeekId);
+      const fixture = await storage.getFixtureById(pick.fixtureId);
+      if (!gameWeek || !fixture) {
+        return res.status(404).send("Fixture not found");
+      }
+
+      const lockError = checkPickLock(gameWeek, fixture);
+      if (lockError) {
+        const { status, ...body } = lockError;
+        return res.status(status).json(body);
+      }
+
+      await storage.deletePick(pick.id);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error withdrawing pick:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to withdraw pick" });
+    }
+  });
+
+  app.get("/api/picks/history", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    const history = await storage.getPickHistoryByUser(req.user.id);
+    res.json(history);
+  });
+
   app.get("/api/game-weeks/:id/picks", async (req, res) => {
     if (!req.user) {
       return res.status(401).send("Authentication required");
     }
 
     const gameWeekId = parseInt(req.params.id);
-    const picks = await storage.getPicksByGameWeek(gameWeekId);
-    res.json(picks);
+    const gameWeek = await storage.getGameWeek(gameWeekId);
+    const round = gameWeek && await storage.getRound(gameWeek.roundId);
+    if (!gameWeek || !round) {
+      return res.status(404).send("Game week not found");
+    }
+    if (!(await canViewRound(storage, req.user, round))) {
+      return res.status(403).send("League membership required");
+    }
+
+    // Picks stay hidden until the deadline
+    const picks = await storage.getPicksWithPlayersByGameWeek(gameWeekId);
+    const aliveCount = (await storage.getPotentialPickerIds(gameWeek)).length;
+    res.json(buildGameWeekPicks(gameWeek, picks, aliveCount, req.user.id));
   });
 
-  app.get("/api/current", async (req, res) => {
+  // Pick counts and survival per team; only totals until the deadline passes
+  app.get("/api/game-weeks/:id/stats", async (req, res) => {
     if (!req.user) {
       return res.status(401).send("Authentication required");
     }
 
-    const season = await storage.getActiveSeason();
-    if (!season) {
-      return res.status(404).send("No active season");
+    const gameWeekId = parseInt(req.params.id);
+    if (isNaN(gameWeekId)) {
+      return res.status(400).json({ error: "Invalid game week ID" });
+    }
+
+    const gameWeek = await storage.getGameWeek(gameWeekId);
+    const round = gameWeek && await storage.getRound(gameWeek.roundId);
+    if (!round) {
+      return res.status(404).send("Game week not found");
+    }
+    if (!(await canViewRound(storage, req.user, round))) {
+      return res.status(403).send("League membership required");
+    }
+
+    try {
+      const stats = await storage.getGameWeekStats(gameWeekId);
+      res.json(stats);
+    } catch (error) {
+      console.error("Error getting game week stats:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get game week stats" });
+    }
+  });
+
+  // Who would survive if the scores of matches in play held
+  app.get("/api/game-weeks/:id/live", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    const gameWeekId = parseInt(req.params.id);
+    if (isNaN(gameWeekId)) {
+      return res.status(400).json({ error: "Invalid game week ID" });
     }
 
-    const round = await storage.getActiveRound(season.id);
+    const gameWeek = await storage.getGameWeek(gameWeekId);
+    const round = gameWeek && await storage.getRound(gameWeek.roundId);
+    if (!round) {
+      return res.status(404).send("Game week not found");
+    }
+    if (!(await canViewRound(storage, req.user, round))) {
+      return res.status(403).send("League membership required");
+    }
+
+    try {
+      const survival = await storage.getLiveSurvival(gameWeekId, req.user.id);
+      res.json(survival);
+    } catch (error) {
+      console.error("Error getting live survival:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get live survival" });
+    }
+  });
+
+  app.get("/api/rounds/:id/standings", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    const roundId = parseInt(req.params.id);
+    if (isNaN(roundId)) {
+      return res.status(400).json({ error: "Invalid round ID" });
+    }
+
+    const round = await storage.getRound(roundId);
+    if (!round) {
+      return res.status(404).send("Round not found");
+    }
+    if (!(await canViewRound(storage, req.user, round))) {
+      return res.status(403).send("League membership required");
+    }
+
+    const standings = await storage.getRoundStandings(roundId);
+    res.json(standings);
+  });
+
+  app.get("/api/rounds/:id/standings/me", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    const roundId = parseInt(req.params.id);
+    if (isNaN(roundId)) {
+      return res.status(400).json({ error: "Invalid round ID" });
+    }
+
+    const entry = await storage.getRoundEntry(roundId, req.user.id);
+    if (!entry) {
+      return res.status(404).send("Not entered in this round");
+    }
+    res.json(entry);
+  });
+
+  // Round leaderboards and the all-time table for a season in the player's active league
+  app.get("/api/standings", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    try {
+      let seasonId = req.query.seasonId ? parseInt(req.query.seasonId as string) : undefined;
+      if (seasonId === undefined) {
+        seasonId = (await storage.getActiveRound(req.user.activeLeagueId))?.seasonId;
+      }
+      if (seasonId === undefined || isNaN(seasonId)) {
+        return res.status(404).send("No active season");
+      }
+
+      const standings = await storage.getSeasonStandings(seasonId, req.user.activeLeagueId);
+      if (!standings) {
+        return res.status(404).send("Season not found");
+      }
+      res.json(standings);
+    } catch (error) {
+      console.error("Error getting standings:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get standings" });
+    }
+  });
+
+  // Most-picked and graveyard teams for a season in the player's active league
+  app.get("/api/seasons/:id/stats", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    const seasonId = parseInt(req.params.id);
+    if (isNaN(seasonId)) {
+      return res.status(400).json({ error: "Invalid season ID" });
+    }
+
+    try {
+      const stats = await storage.getSeasonPickStats(seasonId, req.user.activeLeagueId);
+      if (!stats) {
+        return res.status(404).send("Season not found");
+      }
+      res.json(stats);
+    } catch (error) {
+      console.error("Error getting season stats:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to get season stats" });
+    }
+  });
+
+  // Profile routes
+  app.get("/api/profile", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    const profile = await storage.getPublicProfile(req.user.id);
+    res.json(profile);
+  });
+
+  app.put("/api/profile", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    const parsed = updateProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json(parsed.error);
+    }
+    if (parsed.data.favouriteTeamId !== null && !(await storage.getTeam(parsed.data.favouriteTeamId))) {
+      return res.status(400).json({ error: "Team not found" });
+    }
+
+    try {
+      const profile = await storage.updateProfile(req.user.id, parsed.data);
+      res.json(profile);
+    } catch (error) {
+      console.error("Error updating profile:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to update profile" });
+    }
+  });
+
+  app.get("/api/profile/notifications", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    res.json({ optOuts: req.user.notificationOptOuts });
+  });
+
+  app.put("/api/profile/notifications", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    const parsed = notificationPreferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json(parsed.error);
+    }
+
+    try {
+      const optOuts = Array.from(new Set(parsed.data.optOuts));
+      await storage.setNotificationOptOuts(req.user.id, optOuts);
+      res.json({ optOuts });
+    } catch (error) {
+      console.error("Error saving notification preferences:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to save notification preferences" });
+    }
+  });
+
+  app.get("/api/users/:id/profile", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: "Invalid user ID" });
+    }
+
+    const profile = await storage.getPublicProfile(userId);
+    if (!profile) {
+      return res.status(404).send("Player not found");
+    }
+    res.json(profile);
+  });
+
+  // Email template routes
+  app.get("/api/notification-templates", requireRole("super_admin"), async (req, res) => {
+    const custom = await storage.getNotificationTemplates();
+    res.json(notificationTypes.map(type => resolveTemplate(type, custom)));
+  });
+
+  app.put("/api/notification-templates/:type", requireRole("super_admin"), async (req, res) => {
+    const type = req.params.type as NotificationType;
+    if (!notificationTypes.includes(type)) {
+      return res.status(404).send("Unknown email type");
+    }
+
+    const parsed = updateNotificationTemplateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json(parsed.error);
+    }
+
+    const saved = await storage.saveNotificationTemplate(type, parsed.data);
+    res.json(resolveTemplate(type, [saved]));
+  });
+
+  // Goes back to the built-in template
+  app.delete("/api/notification-templates/:type", requireRole("super_admin"), async (req, res) => {
+    const type = req.params.type as NotificationType;
+    if (!notificationTypes.includes(type)) {
+      return res.status(404).send("Unknown email type");
+    }
+
+    await storage.deleteNotificationTemplate(type);
+    res.json(resolveTemplate(type, []));
+  });
+
+  // User management routes. Every change is written to the audit log.
+  app.get("/api/admin/users", requireRole("super_admin"), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch users" });
+    }
+  });
+
+  app.get("/api/admin/users/:id/entries", requireRole("super_admin"), async (req, res) => {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: "Invalid user ID" });
+    }
+
+    try {
+      const entries = await storage.getRoundEntriesByUser(userId);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching user round entries:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to fetch round entries" });
+    }
+  });
+
+  app.put("/api/admin/users/:id/role", requireRole("super_admin"), async (req, res) => {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: "Invalid user ID" });
+    }
+
+    const parsed = updateUserRoleSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json(parsed.error);
+    }
+
+    // Stops the last super admin locking everyone out
+    if (userId === req.user!.id) {
+      return res.status(409).json({ error: "You can't change your own role" });
+    }
+
+    try {
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).send("User not found");
+      }
+      if (user.role === parsed.data.role) {
+        return res.json(toPublicUser(user));
+      }
+
+      const updated = await storage.setUserRole(userId, parsed.data.role);
+      await storage.createAuditLogEntry({
+        actorId: req.user!.id,
+        action: "user.role_changed",
+        entityType: "user",
+        entityId: userId,
+        before: { role: user.role },
+        after: { role: parsed.data.role },
+      });
+      res.json(toPublicUser(updated!));
+    } catch (error) {
+      console.error("Error changing user role:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to change role" });
+    }
+  });
+
+  app.post("/api/admin/users/:id/disable", requireRole("super_admin"), async (req, res) => {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: "Invalid user ID" });
+    }
+    if (userId === req.user!.id) {
+      return res.status(409).json({ error: "You can't disable your own account" });
+    }
+
+    try {
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).send("User not found");
+      }
+      if (user.disabledAt) {
+        return res.json(toPublicUser(user));
+      }
+
+      const updated = await storage.setUserDisabled(userId, new Date());
+      await storage.deleteUserSessions(userId);
+      await storage.createAuditLogEntry({
+        actorId: req.user!.id,
+        action: "user.disabled",
+        entityType: "user",
+        entityId: userId,
+        before: { disabledAt: null },
+        after: { disabledAt: updated!.disabledAt },
+      });
+      res.json(toPublicUser(updated!));
+    } catch (error) {
+      console.error("Error disabling user:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to disable user" });
+    }
+  });
+
+  app.post("/api/admin/users/:id/enable", requireRole("super_admin"), async (req, res) => {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: "Invalid user ID" });
+    }
+
+    try {
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).send("User not found");
+      }
+      if (!user.disabledAt) {
+        return res.json(toPublicUser(user));
+      }
+
+      const updated = await storage.setUserDisabled(userId, null);
+      await storage.createAuditLogEntry({
+        actorId: req.user!.id,
+        action: "user.enabled",
+        entityType: "user",
+        entityId: userId,
+        before: { disabledAt: user.disabledAt },
+        after: { disabledAt: null },
+      });
+      res.json(toPublicUser(updated!));
+    } catch (error) {
+      console.error("Error enabling user:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to enable user" });
+    }
+  });
+
+  // Puts an eliminated player back in a round, e.g. after a result is corrected
+  // Organisers can do this for rounds in leagues they own
+  app.post("/api/admin/users/:id/entries/:roundId/reinstate", requireRole("organiser"), async (req, res) => {
+    const userId = parseInt(req.params.id);
+    const roundId = parseInt(req.params.roundId);
+    if (isNaN(userId) || isNaN(roundId)) {
+      return res.status(400).json({ error: "Invalid user or round ID" });
+    }
+
+    try {
+      const round = await storage.getRound(roundId);
+      if (!round) {
+        return res.status(404).send("Round not found");
+      }
+      if (!(await canManageLeague(storage, req.user!, round.leagueId))) {
+        return res.status(403).send("You can only manage leagues you organise");
+      }
+
+      const entry = await storage.getRoundEntry(roundId, userId);
+      if (!entry) {
+        return res.status(404).send("The player hasn't entered this round");
+      }
+
+      const entries = await storage.getRoundEntries(roundId);
+      if (entries.some(e => e.status === "winner")) {
+        return res.status(409).json({ error: "This round is already over" });
+      }
+
+      const updated = await storage.reinstateRoundEntry(roundId, userId);
+      await storage.createAuditLogEntry({
+        actorId: req.user!.id,
+        action: "round_entry.reset",
+        entityType: "round_entry",
+        entityId: entry.id,
+        before: {
+          roundId,
+          userId,
+          status: entry.status,
+          livesRemaining: entry.livesRemaining,
+          eliminationReason: entry.eliminationReason,
+        },
+        after: { roundId, userId, status: updated!.status, livesRemaining: updated!.livesRemaining, eliminationReason: null },
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error reinstating round entry:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to reinstate player" });
+    }
+  });
+
+  // League routes
+  app.get("/api/leagues", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    const leagues = await storage.getLeaguesByUser(req.user.id);
+    res.json(leagues);
+  });
+
+  app.get("/api/leagues/all", requireRole("organiser"), async (req, res) => {
+    const leagues = await storage.getAllLeagues();
+    const leagueIds = await getManagedLeagueIds(storage, req.user!);
+    res.json(leagueIds ? leagues.filter(l => leagueIds.has(l.id)) : leagues);
+  });
+
+  app.post("/api/leagues", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    const parsed = insertLeagueSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json(parsed.error);
+    }
+
+    try {
+      const league = await storage.createLeague(parsed.data.name, req.user.id);
+      await storage.setActiveLeague(req.user.id, league.id);
+      res.status(201).json(league);
+    } catch (error) {
+      console.error("Error creating league:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to create league" });
+    }
+  });
+
+  app.post("/api/leagues/join", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    const parsed = joinLeagueSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json(parsed.error);
+    }
+
+    try {
+      const league = await storage.getLeagueByInviteCode(parsed.data.inviteCode);
+      if (!league) {
+        return res.status(404).json({ error: "No league found for that invite code" });
+      }
+
+      await storage.addLeagueMember(league.id, req.user.id);
+      await storage.setActiveLeague(req.user.id, league.id);
+      res.json(league);
+    } catch (error) {
+      console.error("Error joining league:", error);
+      res.status(500).json({ error: error instanceof Error ? error.message : "Failed to join league" });
+    }
+  });
+
+  // Switch the league the player is viewing, null for the public game
+  app.post("/api/leagues/active", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    const leagueId = req.body.leagueId === null ? null : parseInt(req.body.leagueId);
+    if (leagueId !== null) {
+      if (isNaN(leagueId)) {
+        return res.status(400).json({ error: "Invalid league ID" });
+      }
+      if (!(await storage.isLeagueMember(leagueId, req.user.id))) {
+        return res.status(403).send("League membership required");
+      }
+    }
+
+    await storage.setActiveLeague(req.user.id, leagueId);
+    res.json({ activeLeagueId: leagueId });
+  });
+
+  app.get("/api/leagues/:id/members", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    const leagueId = parseInt(req.params.id);
+    if (isNaN(leagueId)) {
+      return res.status(400).json({ error: "Invalid league ID" });
+    }
+    if (!hasRole(req.user, "super_admin") && !(await storage.isLeagueMember(leagueId, req.user.id))) {
+      return res.status(403).send("League membership required");
+    }
+
+    const members = await storage.getLeagueMembers(leagueId);
+    res.json(members);
+  });
+
+  app.get("/api/current", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).send("Authentication required");
+    }
+
+    const round = await storage.getActiveRound(req.user.activeLeagueId);
     if (!round) {
       return res.status(404).send("No active round");
     }
 
+    const season = await storage.getSeason(round.seasonId);
+    if (!season) {
+      return res.status(404).send("No active season");
+    }
+
     const gameWeek = await storage.getActiveGameWeek(round.id);
     if (!gameWeek) {
       return res.status(404).send("No active game week");
     }
 
-    res.json({ season, round, gameWeek });
+    const league = req.user.activeLeagueId ? await storage.getLeague(req.user.activeLeagueId) : null;
+    res.json({ league, season, round, gameWeek });
   });
 
   // Add new endpoint to get available teams for current game week
@@ -397,13 +1255,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
-      // Get current active season, round, and game week
-      const season = await storage.getActiveSeason();
-      if (!season) {
-        return res.status(404).send("No active season");
-      }
-
-      const round = await storage.getActiveRound(season.id);
+      // Get the active round and game week of the player's league
+      const round = await storage.getActiveRound(req.user.activeLeagueId);
       if (!round) {
         return res.status(404).send("No active round");
       }
@@ -416,28 +1269,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get all fixtures for the current game week
       const fixtures = await storage.getFixturesByGameWeek(gameWeek.id);
 
-      // Get all teams from these fixtures
-      const teamIds = new Set([
-        ...fixtures.map(f => f.home_team_id),
-        ...fixtures.map(f => f.away_team_id)
-      ]);
-
       // Get user's previous picks for the current round
       const roundGameWeeks = await storage.getGameWeeksByRound(round.id);
-      const roundGameWeekIds = roundGameWeeks.map(gw => gw.id);
-      const previousPicks = await storage.getPicksByGameWeeks(req.user.id, roundGameWeekIds);
-      const previouslyPickedTeamIds = new Set(previousPicks.map(p => p.teamId));
+      const previousPicks = await storage.getPicksByGameWeeks(req.user.id, roundGameWeeks.map(gw => gw.id));
 
-      // Get all teams
       const teams = await storage.getTeams();
-
-      // Format response with available and unavailable teams
-      const availableTeams = teams
-        .filter(team => teamIds.has(team.id))
-        .map(team => ({
-          ...team,
-          isAvailable: !previouslyPickedTeamIds.has(team.id)
-        }));
+      const availableTeams = getAvailableTeams(teams, gameWeek, fixtures, previousPicks, parseRoundRules(round.rules));
 
       res.json(availableTeams);
     } catch (error) {
@@ -446,19 +1283,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   // Add this new endpoint after your existing fixture-related endpoints
-  app.post("/api/fixtures/assign", async (req, res) => {
-    if (!req.user?.isAdmin) {
-      return res.status(403).send("Admin access required");
-    }
-
+  app.post("/api/fixtures/assign", requireRole("organiser"), async (req, res) => {
     try {
-      const { fixtureIds, gameWeekId, roundId, seasonId } = req.body;
+      const { fixtureIds, gameWeekId } = req.body;
 
-      if (!Array.isArray(fixtureIds) || !gameWeekId || !roundId || !seasonId) {
+      if (!Array.isArray(fixtureIds) || !gameWeekId) {
         return res.status(400).send("Invalid request data");
       }
+      if (!(await canManageGameWeek(storage, req.user!, gameWeekId))) {
+        return res.status(403).send("You can only manage leagues you organise");
+      }
 
-      await storage.updateFixturesGameWeek(fixtureIds, gameWeekId, roundId, seasonId);
+      const gameWeek = await storage.getGameWeek(gameWeekId);
+      const round = await storage.getRound(gameWeek!.roundId);
+      const outside = await getFixturesOutsideSeason(storage, fixtureIds, round!.seasonId);
+      if (outside.length > 0) {
+        return res.status(400).json({ error: `Fixtures ${outside.join(", ")} aren't in this round's season` });
+      }
+
+      await storage.updateFixturesGameWeek(fixtureIds, gameWeekId, req.user!.id);
       res.json({ message: "Fixtures assigned successfully" });
     } catch (error) {
       console.error("Error assigning fixtures:", error);
@@ -478,31 +1321,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid game week ID" });
       }
       
+      // Already shaped with nested homeTeam/awayTeam for the frontend
       const fixturesWithTeams = await storage.getFixturesByGameWeekWithTeams(gameWeekId);
-      
-      // Transform the data to match the expected format in the frontend
-      const formattedFixtures = fixturesWithTeams.map(fixture => ({
-        id: fixture.id,
-        kickoff: fixture.kickoff,
-        status: fixture.status,
-        home_score: fixture.home_score,
-        away_score: fixture.away_score,
-        gameWeekId: fixture.game_week_id,
-        homeTeam: {
-          id: fixture.home_team_id,
-          name: fixture.home_team_name,
-          tla: fixture.home_team_tla,
-          crest: fixture.home_team_crest
-        },
-        awayTeam: {
-          id: fixture.away_team_id,
-          name: fixture.away_team_name,
-          tla: fixture.away_team_tla,
-          crest: fixture.away_team_crest
-        }
-      }));
-      
-      res.json(formattedFixtures);
+      res.json(fixturesWithTeams);
     } catch (error) {
       console.error("Error getting fixtures for game week:", error);
       res.status(500).json({ error: "Failed to get fixtures for game week" });
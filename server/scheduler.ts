@@ -0,0 +1,132 @@
+import type { IStorage } from "./types";
+import { log } from "./vite";
+import { syncFixtures } from "./fixture-sync";
+import { startDeadlineJob } from "./deadline-job";
+import { startNotificationJob } from "./notifications";
+import { getSyncInterval } from "./services/sync-schedule";
+import { getFixtureProvider } from "./services/fixture-provider";
+import type { JobRun, JobRunOutcome, JobRunTrigger, Season } from "@shared/schema";
+
+export const FIXTURE_SYNC_JOB = "fixture_sync";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Jobs running in this process; the advisory lock covers other processes
+const runningJobs = new Set<string>();
+
+// Runs a job and records it in job_runs. Returns null without running it when
+// the same job is already running here or in another server process.
+export async function runJob(
+  storage: IStorage,
+  job: string,
+  trigger: JobRunTrigger,
+  fn: () => Promise<JobRunOutcome>,
+): Promise<JobRun | null> {
+  if (runningJobs.has(job)) return null;
+  runningJobs.add(job);
+
+  try {
+    const { acquired, result } = await storage.withJobLock(job, async () => {
+      const run = await storage.createJobRun(job, trigger);
+      try {
+        return await storage.finishJobRun(run.id, await fn());
+      } catch (error) {
+        console.error(`Job ${job} failed:`, error);
+        return await storage.finishJobRun(run.id, {
+          status: "failed",
+          inserted: 0,
+          updated: 0,
+          failed: 0,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+    return acquired ? result ?? null : null;
+  } finally {
+    runningJobs.delete(job);
+  }
+}
+
+function toDateParam(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+// Syncs a season's competition into it. Without a date range the sync covers
+// yesterday's late results and the coming week. actorId is the admin who asked
+// for a manual sync.
+export async function runFixtureSync(
+  storage: IStorage,
+  trigger: JobRunTrigger,
+  season: Season,
+  dateFrom?: string,
+  dateTo?: string,
+  actorId: number | null = null,
+) {
+  const now = Date.now();
+  const run = await runJob(storage, FIXTURE_SYNC_JOB, trigger, () => syncFixtures(
+    storage,
+    getFixtureProvider(),
+    season,
+    dateFrom ?? toDateParam(new Date(now - DAY)),
+    dateTo ?? toDateParam(new Date(now + 7 * DAY)),
+  ));
+
+  if (run) {
+    await storage.createAuditLogEntry({
+      actorId,
+      action: "fixture_sync.run",
+      entityType: "job_run",
+      entityId: run.id,
+      before: null,
+      after: {
+        seasonId: season.id,
+        trigger,
+        status: run.status,
+        inserted: run.inserted,
+        updated: run.updated,
+        failed: run.failed,
+        error: run.error,
+      },
+    });
+  }
+  return run;
+}
+
+async function getNextSyncDelay(storage: IStorage) {
+  const now = new Date();
+  const nearbyFixtures = await storage.getFixturesByKickoff(new Date(now.getTime() - DAY), new Date(now.getTime() + DAY));
+  return getSyncInterval(nearbyFixtures, now);
+}
+
+function scheduleFixtureSync(storage: IStorage, delay: number) {
+  setTimeout(async () => {
+    let nextDelay = delay;
+    try {
+      // Each competition being played is synced in turn
+      for (const season of await storage.getActiveSeasons()) {
+        const run = await runFixtureSync(storage, "scheduled", season);
+        if (run) {
+          log(`Fixture sync for ${season.name} ${run.status}: ${run.inserted} inserted, ${run.updated} updated, ${run.failed} failed`);
+        }
+      }
+      nextDelay = await getNextSyncDelay(storage);
+    } catch (error) {
+      console.error("Error running scheduled fixture sync:", error);
+    }
+    scheduleFixtureSync(storage, nextDelay);
+  }, delay);
+}
+
+export function startScheduler(storage: IStorage) {
+  startDeadlineJob(storage);
+  startNotificationJob(storage);
+
+  const provider = getFixtureProvider();
+  if (!provider.isConfigured()) {
+    log(`Fixture provider ${provider.name} is not configured, scheduled fixture sync is disabled`);
+    return;
+  }
+
+  // First sync shortly after startup, then at a pace set by the fixtures around now
+  scheduleFixtureSync(storage, 5 * 1000);
+}
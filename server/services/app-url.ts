@@ -0,0 +1,10 @@
+// Port the server listens on
+export function getPort() {
+  return parseInt(process.env.PORT ?? "3000");
+}
+
+// Base URL used for links in emails. Set APP_URL wherever the app isn't
+// reached on localhost at the port it listens on.
+export function getAppUrl() {
+  return (process.env.APP_URL ?? `http://localhost:${getPort()}`).replace(/\/$/, "");
+}
@@ -0,0 +1,40 @@
+import type { User } from "@shared/schema";
+import { getAppUrl } from "./app-url";
+import type { EmailMessage } from "./email-transport";
+
+// Account emails are always sent, so unlike notifications they have no template or opt-out
+
+export function passwordResetEmail(user: User, token: string): EmailMessage {
+  const link = `${getAppUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+  return {
+    to: user.email,
+    subject: "Reset your password",
+    text: [
+      `Hi ${user.displayName || user.username},`,
+      "",
+      `Someone asked to reset the password for your account "${user.username}".`,
+      "Use this link within the next hour to choose a new one:",
+      "",
+      link,
+      "",
+      "If it wasn't you, you can ignore this email and your password will stay the same.",
+    ].join("\n"),
+  };
+}
+
+export function verificationEmail(user: User, token: string): EmailMessage {
+  const link = `${getAppUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+  return {
+    to: user.email,
+    subject: "Confirm your email address",
+    text: [
+      `Hi ${user.displayName || user.username},`,
+      "",
+      "Please confirm this is your email address so we can send you reminders and results:",
+      "",
+      link,
+      "",
+      "The link is valid for 48 hours.",
+    ].join("\n"),
+  };
+}
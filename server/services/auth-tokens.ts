@@ -0,0 +1,24 @@
+import { createHash, randomBytes } from "crypto";
+import type { AuthTokenPurpose } from "@shared/schema";
+
+const HOUR = 60 * 60 * 1000;
+
+// How long an emailed link stays valid
+export const AUTH_TOKEN_LIFETIMES: Record<AuthTokenPurpose, number> = {
+  password_reset: 1 * HOUR,
+  email_verification: 48 * HOUR,
+};
+
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// A random token for a link and the hash that gets stored in its place
+export function generateAuthToken(purpose: AuthTokenPurpose, now: Date = new Date()) {
+  const token = randomBytes(32).toString("base64url");
+  return {
+    token,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(now.getTime() + AUTH_TOKEN_LIFETIMES[purpose]),
+  };
+}
@@ -0,0 +1,95 @@
+import { isFixtureCalledOff, type AutoPickStrategy, type Fixture, type Pick as PickType, type Team } from "@shared/schema";
+import { getFixtureOutcome } from "./settlement";
+
+// What happened to the players without a pick when a game week's deadline passed
+export interface DeadlineResult {
+  gameWeekId: number;
+  eliminatedEntryIds: number[];
+  autoPicks: PickType[];
+  // Entries that should have been given a team but had none left to pick
+  unassignedEntryIds: number[];
+}
+
+interface TableRow {
+  points: number;
+  goalDifference: number;
+  goalsFor: number;
+}
+
+// League table built from the finished fixtures of a season. Teams that haven't
+// played yet are missing from the map and rank as if on zero points.
+export function buildLeagueTable(seasonFixtures: Fixture[]): Map<number, TableRow> {
+  const table = new Map<number, TableRow>();
+  const row = (teamId: number) => {
+    let existing = table.get(teamId);
+    if (!existing) {
+      existing = { points: 0, goalDifference: 0, goalsFor: 0 };
+      table.set(teamId, existing);
+    }
+    return existing;
+  };
+
+  for (const fixture of seasonFixtures) {
+    const outcome = getFixtureOutcome(fixture);
+    if (!outcome || fixture.home_score === null || fixture.away_score === null) continue;
+
+    const home = row(fixture.home_team_id);
+    const away = row(fixture.away_team_id);
+    home.goalsFor += fixture.home_score;
+    away.goalsFor += fixture.away_score;
+    home.goalDifference += fixture.home_score - fixture.away_score;
+    away.goalDifference += fixture.away_score - fixture.home_score;
+
+    if (outcome === "HOME_TEAM") home.points += 3;
+    else if (outcome === "AWAY_TEAM") away.points += 3;
+    else {
+      home.points += 1;
+      away.points += 1;
+    }
+  }
+
+  return table;
+}
+
+export interface AutoPickChoice {
+  team: Team;
+  fixture: Fixture;
+}
+
+// Picks a team for a player who missed the deadline from the teams they are
+// still allowed to pick. Teams whose fixture has kicked off are skipped. Returns
+// null when nothing is left to pick.
+export function chooseAutoPick(
+  availableTeams: Team[],
+  gameWeekFixtures: Fixture[],
+  seasonFixtures: Fixture[],
+  strategy: AutoPickStrategy,
+  now: Date = new Date(),
+): AutoPickChoice | null {
+  const candidates: AutoPickChoice[] = [];
+  for (const team of availableTeams) {
+    const fixture = gameWeekFixtures.find(f =>
+      (f.home_team_id === team.id || f.away_team_id === team.id) && new Date(f.kickoff) > now && !isFixtureCalledOff(f)
+    );
+    if (fixture) candidates.push({ team, fixture });
+  }
+
+  const byName = (a: AutoPickChoice, b: AutoPickChoice) => a.team.name.localeCompare(b.team.name);
+
+  if (strategy === "lowest_ranked") {
+    const table = buildLeagueTable(seasonFixtures);
+    const empty: TableRow = { points: 0, goalDifference: 0, goalsFor: 0 };
+    candidates.sort((a, b) => {
+      const rowA = table.get(a.team.id) ?? empty;
+      const rowB = table.get(b.team.id) ?? empty;
+      return rowA.points - rowB.points ||
+        rowA.goalDifference - rowB.goalDifference ||
+        rowA.goalsFor - rowB.goalsFor ||
+        byName(a, b);
+    });
+  } else {
+    candidates.sort(byName);
+  }
+
+  return candidates[0] ?? null;
+}
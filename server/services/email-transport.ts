@@ -0,0 +1,55 @@
+import { createSmtpTransport } from "./smtp-email";
+import { createFileEmailTransport } from "./file-email";
+import { createInMemoryEmailTransport } from "./in-memory-email";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+let transport: EmailTransport | undefined;
+
+// Picks the transport from EMAIL_TRANSPORT: "smtp" (the default when SMTP_HOST is
+// set), "file" which appends to EMAIL_FILE, "console" (the default otherwise) or
+// "memory" which keeps sent emails for tests
+export function getEmailTransport(): EmailTransport {
+  if (transport) return transport;
+
+  switch (process.env.EMAIL_TRANSPORT ?? (process.env.SMTP_HOST ? "smtp" : "console")) {
+    case "smtp":
+      if (!process.env.SMTP_HOST) {
+        throw new Error("SMTP_HOST must be set when EMAIL_TRANSPORT is smtp");
+      }
+      transport = createSmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT ?? "587"),
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+        from: process.env.EMAIL_FROM ?? "Last Player Standing <no-reply@localhost>",
+      });
+      break;
+    case "file":
+      if (!process.env.EMAIL_FILE) {
+        throw new Error("EMAIL_FILE must be set when EMAIL_TRANSPORT is file");
+      }
+      transport = createFileEmailTransport(process.env.EMAIL_FILE);
+      break;
+    case "console":
+      transport = createFileEmailTransport();
+      break;
+    case "memory":
+      transport = createInMemoryEmailTransport();
+      break;
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${process.env.EMAIL_TRANSPORT}`);
+  }
+
+  return transport;
+}
@@ -0,0 +1,32 @@
+import { appendFile } from "fs/promises";
+import path from "path";
+import type { EmailMessage, EmailTransport } from "./email-transport";
+
+function formatEmail(message: EmailMessage) {
+  return [
+    `Date: ${new Date().toISOString()}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    "",
+    message.text,
+    "",
+    "-".repeat(60),
+    "",
+  ].join("\n");
+}
+
+// Writes emails to a local file for development, or to the console without one
+export function createFileEmailTransport(filePath?: string): EmailTransport {
+  const resolved = filePath ? path.resolve(filePath) : undefined;
+
+  return {
+    name: resolved ? "file" : "console",
+    async send(message) {
+      if (resolved) {
+        await appendFile(resolved, formatEmail(message), "utf-8");
+      } else {
+        console.log(formatEmail(message));
+      }
+    },
+  };
+}
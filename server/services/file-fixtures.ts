@@ -0,0 +1,152 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { parseFootballDataMatches } from "./football-data";
+import {
+  fixtureStatuses, filterFixtures,
+  type FixtureProvider, type ProviderFixture, type ProviderTeam,
+} from "./fixture-provider";
+
+const optionalScore = z.preprocess(
+  (value) => value === "" || value === undefined ? null : value,
+  z.coerce.number().int().nullable(),
+);
+
+// One row of a flat fixture list. CSV files use these names as their header row.
+const fileFixtureSchema = z.object({
+  id: z.coerce.number().int(),
+  competition: z.string().default("PL"),
+  utcDate: z.string(),
+  status: z.enum(fixtureStatuses).default("SCHEDULED"),
+  homeTeam: z.string().min(1),
+  awayTeam: z.string().min(1),
+  homeScore: optionalScore.default(null),
+  awayScore: optionalScore.default(null),
+  homeShortName: z.string().optional(),
+  awayShortName: z.string().optional(),
+  homeTla: z.string().optional(),
+  awayTla: z.string().optional(),
+  homeCrest: z.string().optional(),
+  awayCrest: z.string().optional(),
+  seasonId: optionalScore.default(null),
+});
+
+type FileFixture = z.infer<typeof fileFixtureSchema>;
+
+function toTeam(name: string, shortName?: string, tla?: string, crest?: string): ProviderTeam {
+  return {
+    name,
+    shortName: shortName || name,
+    tla: tla || name.slice(0, 3).toUpperCase(),
+    crest: crest || "",
+  };
+}
+
+function toProviderFixture(row: FileFixture): ProviderFixture {
+  const kickoff = new Date(row.utcDate);
+  if (isNaN(kickoff.getTime())) {
+    throw new Error(`Fixture ${row.id} has an invalid utcDate: ${row.utcDate}`);
+  }
+
+  let winner: ProviderFixture["winner"] = null;
+  if (row.status === "FINISHED" && row.homeScore !== null && row.awayScore !== null) {
+    winner = row.homeScore > row.awayScore ? "HOME_TEAM" : row.homeScore < row.awayScore ? "AWAY_TEAM" : "DRAW";
+  }
+
+  return {
+    externalId: row.id,
+    competition: row.competition,
+    externalSeasonId: row.seasonId,
+    homeTeam: toTeam(row.homeTeam, row.homeShortName, row.homeTla, row.homeCrest),
+    awayTeam: toTeam(row.awayTeam, row.awayShortName, row.awayTla, row.awayCrest),
+    kickoff,
+    status: row.status,
+    homeScore: row.homeScore,
+    awayScore: row.awayScore,
+    winner,
+  };
+}
+
+// Splits CSV text into rows of fields, honouring double-quoted fields
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ""));
+}
+
+export function parseFixtureCsv(text: string): ProviderFixture[] {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return rows.map(values => {
+    const record = Object.fromEntries(
+      columns.map((column, i) => [column, values[i]?.trim() || undefined])
+    );
+    return toProviderFixture(fileFixtureSchema.parse(record));
+  });
+}
+
+// Accepts either a flat array of fixtures or a saved football-data.org matches response
+export function parseFixtureJson(text: string): ProviderFixture[] {
+  const data = JSON.parse(text);
+  if (Array.isArray(data)) {
+    return data.map(row => toProviderFixture(fileFixtureSchema.parse(row)));
+  }
+  if (data && Array.isArray(data.matches)) {
+    return parseFootballDataMatches(data.matches, data.competition?.code ?? "PL");
+  }
+  throw new Error("Fixture file must contain an array of fixtures or a matches array");
+}
+
+// Reads fixtures from a local .json or .csv file. The file is read on every
+// fetch so edits show up on the next sync.
+export function createFileFixtureProvider(filePath: string): FixtureProvider {
+  const resolved = path.resolve(filePath);
+  const isCsv = path.extname(resolved).toLowerCase() === ".csv";
+
+  return {
+    name: "file",
+    isConfigured: () => true,
+    async fetchFixtures(competition, dateFrom, dateTo) {
+      const text = await readFile(resolved, "utf-8");
+      const fixtures = isCsv ? parseFixtureCsv(text) : parseFixtureJson(text);
+      return filterFixtures(fixtures, competition, dateFrom, dateTo);
+    },
+  };
+}
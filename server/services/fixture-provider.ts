@@ -0,0 +1,71 @@
+import { footballDataProvider } from "./football-data";
+import { createFileFixtureProvider } from "./file-fixtures";
+import { createInMemoryFixtureProvider } from "./in-memory-fixtures";
+import type { FixtureStatus } from "@shared/schema";
+
+export { fixtureStatuses, type FixtureStatus } from "@shared/schema";
+
+export interface ProviderTeam {
+  name: string;
+  shortName: string;
+  tla: string;
+  crest: string;
+}
+
+// A fixture as every provider hands it to the sync, whatever its source format
+export interface ProviderFixture {
+  externalId: number;
+  // football-data.org competition code, e.g. PL or WC
+  competition: string;
+  externalSeasonId: number | null;
+  homeTeam: ProviderTeam;
+  awayTeam: ProviderTeam;
+  kickoff: Date;
+  status: FixtureStatus;
+  homeScore: number | null;
+  awayScore: number | null;
+  winner: "HOME_TEAM" | "AWAY_TEAM" | "DRAW" | null;
+}
+
+export interface FixtureProvider {
+  name: string;
+  // Whether the provider has what it needs to run, e.g. an API token
+  isConfigured(): boolean;
+  // dateFrom and dateTo are inclusive yyyy-MM-dd dates
+  fetchFixtures(competition: string, dateFrom?: string, dateTo?: string): Promise<ProviderFixture[]>;
+}
+
+// Keeps the fixtures of one competition kicking off within an inclusive yyyy-MM-dd date range
+export function filterFixtures(fixtures: ProviderFixture[], competition: string, dateFrom?: string, dateTo?: string) {
+  return fixtures.filter(f => {
+    const day = f.kickoff.toISOString().slice(0, 10);
+    return f.competition === competition && (!dateFrom || day >= dateFrom) && (!dateTo || day <= dateTo);
+  });
+}
+
+let provider: FixtureProvider | undefined;
+
+// Picks the provider from FIXTURE_PROVIDER: "football-data" (the default), "file"
+// which reads FIXTURE_FILE, or "memory" which starts empty
+export function getFixtureProvider(): FixtureProvider {
+  if (provider) return provider;
+
+  switch (process.env.FIXTURE_PROVIDER ?? "football-data") {
+    case "football-data":
+      provider = footballDataProvider;
+      break;
+    case "file":
+      if (!process.env.FIXTURE_FILE) {
+        throw new Error("FIXTURE_FILE must be set when FIXTURE_PROVIDER is file");
+      }
+      provider = createFileFixtureProvider(process.env.FIXTURE_FILE);
+      break;
+    case "memory":
+      provider = createInMemoryFixtureProvider();
+      break;
+    default:
+      throw new Error(`Unknown FIXTURE_PROVIDER: ${process.env.FIXTURE_PROVIDER}`);
+  }
+
+  return provider;
+}
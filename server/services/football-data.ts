@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { FixtureProvider, ProviderFixture } from "./fixture-provider";
 
 const scoreSchema = z.object({
   winner: z.string().nullable(),
@@ -35,11 +36,32 @@ const fixtureSchema = z.object({
 
 type Fixture = z.infer<typeof fixtureSchema>;
 
-export async function fetchFixtures(dateFrom?: string, dateTo?: string): Promise<Fixture[]> {
+function toProviderFixture(fixture: Fixture, competition: string): ProviderFixture {
+  const winner = fixture.score.winner;
+  return {
+    externalId: fixture.id,
+    competition,
+    externalSeasonId: fixture.season?.id || null,
+    homeTeam: fixture.homeTeam,
+    awayTeam: fixture.awayTeam,
+    kickoff: new Date(fixture.utcDate),
+    status: fixture.status,
+    homeScore: fixture.score.fullTime.home,
+    awayScore: fixture.score.fullTime.away,
+    winner: winner === "HOME_TEAM" || winner === "AWAY_TEAM" || winner === "DRAW" ? winner : null,
+  };
+}
+
+// Validates the matches array of a football-data.org response
+export function parseFootballDataMatches(matches: unknown[], competition: string): ProviderFixture[] {
+  return z.array(fixtureSchema).parse(matches).map(f => toProviderFixture(f, competition));
+}
+
+export async function fetchFixtures(competition: string, dateFrom?: string, dateTo?: string): Promise<Fixture[]> {
   console.log('Fetching fixtures with token:', process.env.FOOTBALL_DATA_API_TOKEN?.slice(0, 4) + '...');
   console.log('Date range:', { dateFrom, dateTo });
 
-  const url = new URL('https://api.football-data.org/v4/competitions/PL/matches');
+  const url = new URL(`https://api.football-data.org/v4/competitions/${encodeURIComponent(competition)}/matches`);
 
   // Add date filters if provided
   if (dateFrom) url.searchParams.set('dateFrom', dateFrom);
@@ -88,4 +110,12 @@ export async function fetchFixture(fixtureId: number): Promise<Fixture> {
 
   const data = await response.json();
   return fixtureSchema.parse(data);
-}
\ No newline at end of file
+}
+
+export const footballDataProvider: FixtureProvider = {
+  name: "football-data",
+  isConfigured: () => !!process.env.FOOTBALL_DATA_API_TOKEN,
+  async fetchFixtures(competition, dateFrom, dateTo) {
+    return (await fetchFixtures(competition, dateFrom, dateTo)).map(f => toProviderFixture(f, competition));
+  },
+};
@@ -0,0 +1,22 @@
+import type { EmailMessage, EmailTransport } from "./email-transport";
+
+export interface InMemoryEmailTransport extends EmailTransport {
+  sent: EmailMessage[];
+  clear(): void;
+}
+
+// Keeps every email in memory so tests can check what would have been sent
+export function createInMemoryEmailTransport(): InMemoryEmailTransport {
+  const sent: EmailMessage[] = [];
+
+  return {
+    name: "memory",
+    sent,
+    async send(message) {
+      sent.push({ ...message });
+    },
+    clear() {
+      sent.length = 0;
+    },
+  };
+}
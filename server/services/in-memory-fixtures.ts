@@ -0,0 +1,26 @@
+import { filterFixtures, type FixtureProvider, type ProviderFixture } from "./fixture-provider";
+
+export interface InMemoryFixtureProvider extends FixtureProvider {
+  setFixtures(fixtures: ProviderFixture[]): void;
+  // Replaces one fixture by external id, e.g. to post a result between syncs
+  updateFixture(externalId: number, changes: Partial<ProviderFixture>): void;
+}
+
+// A fake provider for tests and local development; fixtures are whatever was last set
+export function createInMemoryFixtureProvider(initial: ProviderFixture[] = []): InMemoryFixtureProvider {
+  let fixtures = [...initial];
+
+  return {
+    name: "memory",
+    isConfigured: () => true,
+    async fetchFixtures(competition, dateFrom, dateTo) {
+      return filterFixtures(fixtures, competition, dateFrom, dateTo);
+    },
+    setFixtures(next) {
+      fixtures = [...next];
+    },
+    updateFixture(externalId, changes) {
+      fixtures = fixtures.map(f => f.externalId === externalId ? { ...f, ...changes } : f);
+    },
+  };
+}
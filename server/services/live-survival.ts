@@ -0,0 +1,68 @@
+import {
+  isFixtureInPlay, parseRoundRules,
+  type Fixture, type GameWeek, type LiveProjection, type LiveSurvival, type Pick as PickType, type Round,
+  type RoundEntry, type RoundRules,
+} from "@shared/schema";
+import { getFixtureOutcome, getPickResult } from "./settlement";
+
+// Projects a pick from the live score as though the match ended now. Returns null
+// unless the fixture is being played and has a score.
+export function projectPick(
+  pick: Pick<PickType, "teamId" | "isHomeTeam">,
+  fixture: Fixture | undefined,
+  rules: RoundRules,
+): LiveProjection | null {
+  if (!fixture || !isFixtureInPlay(fixture)) return null;
+  if (fixture.home_score === null || fixture.away_score === null) return null;
+
+  // The provider's winner is only final at full time, so go by the score alone
+  const asFinished = { ...fixture, status: "FINISHED", winner: null };
+  if (getFixtureOutcome(asFinished) === "DRAW") {
+    return rules.drawCountsAsLoss ? "at_risk" : "surviving";
+  }
+  return getPickResult(pick, asFinished, rules) ? "surviving" : "eliminated";
+}
+
+// The viewer's live projection and how the rest of the round is faring. Like
+// the picks themselves, other players are only counted after the deadline.
+export function buildLiveSurvival(
+  gameWeek: GameWeek,
+  round: Round,
+  picks: PickType[],
+  fixtures: Fixture[],
+  entries: RoundEntry[],
+  viewerId: number,
+  now: Date = new Date(),
+): LiveSurvival {
+  const rules = parseRoundRules(round.rules);
+  const fixturesById = new Map(fixtures.map(f => [f.id, f]));
+  const isRevealed = now >= new Date(gameWeek.deadline);
+  const aliveEntries = entries.filter(e => e.status === "alive");
+
+  const viewerPick = picks.find(p => p.userId === viewerId && !p.isVoid);
+  const viewerEntry = entries.find(e => e.userId === viewerId);
+  const survival: LiveSurvival = {
+    gameWeekId: gameWeek.id,
+    projection: viewerPick ? projectPick(viewerPick, fixturesById.get(viewerPick.fixtureId), rules) : null,
+    livesRemaining: viewerEntry?.livesRemaining ?? null,
+    isRevealed,
+    aliveCount: aliveEntries.length,
+    inPlayCount: 0,
+    projectedOut: 0,
+    atRisk: 0,
+  };
+  if (!isRevealed || gameWeek.settledAt) return survival;
+
+  for (const entry of aliveEntries) {
+    const pick = picks.find(p => p.userId === entry.userId && !p.isVoid);
+    const projection = pick ? projectPick(pick, fixturesById.get(pick.fixtureId), rules) : null;
+    if (!projection) continue;
+
+    survival.inPlayCount++;
+    if (entry.livesRemaining > 1) continue;
+    if (projection === "eliminated") survival.projectedOut++;
+    if (projection === "at_risk") survival.atRisk++;
+  }
+
+  return survival;
+}
@@ -0,0 +1,91 @@
+import type { NotificationTemplate, NotificationTemplateView, NotificationType } from "@shared/schema";
+
+export type TemplateVariables = Record<string, string | number>;
+
+interface TemplateText {
+  subject: string;
+  body: string;
+}
+
+const commonVariables = ["playerName", "leagueName", "roundNumber", "appUrl"];
+
+// Placeholders each email type fills in, written as {{name}} in a template
+export const templateVariables: Record<NotificationType, string[]> = {
+  deadline_reminder: [...commonVariables, "gameWeekNumber", "deadline"],
+  game_week_results: [...commonVariables, "gameWeekNumber", "outcome", "teamName", "survivors", "eliminations"],
+  eliminated: [...commonVariables, "gameWeekNumber", "reason", "teamName"],
+  round_winner: [...commonVariables, "winners"],
+};
+
+export const defaultTemplates: Record<NotificationType, TemplateText> = {
+  deadline_reminder: {
+    subject: "Game week {{gameWeekNumber}} deadline is coming up",
+    body: [
+      "Hi {{playerName}},",
+      "",
+      "You haven't made a pick for game week {{gameWeekNumber}} of round {{roundNumber}} in {{leagueName}} yet.",
+      "The deadline is {{deadline}}.",
+      "",
+      "Make your pick: {{appUrl}}",
+    ].join("\n"),
+  },
+  game_week_results: {
+    subject: "Game week {{gameWeekNumber}} results",
+    body: [
+      "Hi {{playerName}},",
+      "",
+      "Game week {{gameWeekNumber}} of round {{roundNumber}} in {{leagueName}} is settled.",
+      "{{outcome}}",
+      "",
+      "{{survivors}} players survived and {{eliminations}} went out.",
+      "",
+      "See the standings: {{appUrl}}/standings",
+    ].join("\n"),
+  },
+  eliminated: {
+    subject: "You're out of round {{roundNumber}}",
+    body: [
+      "Hi {{playerName}},",
+      "",
+      "You've been knocked out of round {{roundNumber}} in {{leagueName}} in game week {{gameWeekNumber}}: {{reason}}.",
+      "",
+      "A new round will start soon. See the standings: {{appUrl}}/standings",
+    ].join("\n"),
+  },
+  round_winner: {
+    subject: "Round {{roundNumber}} has a winner",
+    body: [
+      "Hi {{playerName}},",
+      "",
+      "Round {{roundNumber}} in {{leagueName}} is over. Congratulations to {{winners}}!",
+      "",
+      "See the standings: {{appUrl}}/standings",
+    ].join("\n"),
+  },
+};
+
+// Fills in {{name}} placeholders. Unknown ones are left in place so a typo shows up in the email.
+export function renderTemplate(text: string, variables: TemplateVariables): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in variables ? String(variables[name]) : match
+  );
+}
+
+// The admin's version of a template if they have saved one, otherwise the default
+export function resolveTemplate(type: NotificationType, custom: NotificationTemplate[]): NotificationTemplateView {
+  const saved = custom.find(t => t.type === type);
+  return {
+    type,
+    subject: saved?.subject ?? defaultTemplates[type].subject,
+    body: saved?.body ?? defaultTemplates[type].body,
+    isCustom: !!saved,
+    variables: templateVariables[type],
+  };
+}
+
+export function renderNotification(template: TemplateText, variables: TemplateVariables): TemplateText {
+  return {
+    subject: renderTemplate(template.subject, variables),
+    body: renderTemplate(template.body, variables),
+  };
+}
@@ -0,0 +1,135 @@
+import {
+  parseRoundRules,
+  type Fixture, type GameWeek, type GameWeekStats, type Pick as PickType, type Round, type RoundEntry,
+  type RoundRules, type Season, type SeasonPickStats, type SeasonTeamStats, type StatsGameWeek, type Team,
+  type TeamPickStats,
+} from "@shared/schema";
+import { getFixtureOutcome, getPickFailure } from "./settlement";
+
+type PickOutcome = "survived" | "failed" | "pending";
+
+function getPickOutcome(pick: PickType, fixture: Fixture | undefined, rules: RoundRules): PickOutcome {
+  const hasResult = !!fixture && getFixtureOutcome(fixture) !== null;
+  if (!hasResult && pick.isCorrect === null) return "pending";
+  return getPickFailure(pick, fixture, rules) ? "failed" : "survived";
+}
+
+function teamDetails(teamsById: Map<number, Team>, teamId: number) {
+  const team = teamsById.get(teamId);
+  return { teamId, teamName: team?.name ?? "Unknown team", teamCrest: team?.crest ?? null };
+}
+
+// How many players backed each team in a game week and how those picks fared.
+// Before the deadline only the totals are given so picks can't be worked out.
+export function buildGameWeekStats(
+  gameWeek: GameWeek,
+  round: Round,
+  picks: PickType[],
+  fixtures: Fixture[],
+  teams: Team[],
+  entries: RoundEntry[],
+  now: Date = new Date(),
+): GameWeekStats {
+  const isRevealed = now >= new Date(gameWeek.deadline);
+  const eliminations = entries.filter(e => e.eliminatedGameWeekId === gameWeek.id).length;
+  const stats: GameWeekStats = {
+    gameWeekId: gameWeek.id,
+    gameWeekNumber: gameWeek.number,
+    isRevealed,
+    totalPicks: picks.length,
+    eliminations,
+    teams: [],
+  };
+  if (!isRevealed) return stats;
+
+  const rules = parseRoundRules(round.rules);
+  const teamsById = new Map(teams.map(t => [t.id, t]));
+  const fixturesById = new Map(fixtures.map(f => [f.id, f]));
+  const byTeam = new Map<number, TeamPickStats>();
+
+  for (const pick of picks) {
+    let row = byTeam.get(pick.teamId);
+    if (!row) {
+      row = { ...teamDetails(teamsById, pick.teamId), picks: 0, survived: 0, failed: 0, pending: 0, survivalRate: null };
+      byTeam.set(pick.teamId, row);
+    }
+    row.picks++;
+    row[getPickOutcome(pick, fixturesById.get(pick.fixtureId), rules)]++;
+  }
+
+  stats.teams = Array.from(byTeam.values())
+    .map(row => {
+      const decided = row.survived + row.failed;
+      return { ...row, survivalRate: decided > 0 ? row.survived / decided : null };
+    })
+    .sort((a, b) => b.picks - a.picks || a.teamName.localeCompare(b.teamName));
+  return stats;
+}
+
+export interface SeasonPickStatsData {
+  season: Season;
+  rounds: Round[];
+  gameWeeks: GameWeek[];
+  entries: RoundEntry[];
+  picks: PickType[];
+  teams: Team[];
+  now?: Date;
+}
+
+const SEASON_TEAM_LIMIT = 10;
+
+// The season's most-picked teams and the "graveyard" of teams that knocked the
+// most players out. Only game weeks past their deadline are counted.
+export function buildSeasonPickStats(data: SeasonPickStatsData): SeasonPickStats {
+  const now = data.now ?? new Date();
+  const teamsById = new Map(data.teams.map(t => [t.id, t]));
+  const roundsById = new Map(data.rounds.map(r => [r.id, r]));
+
+  const revealedWeeks = data.gameWeeks
+    .filter(gw => roundsById.has(gw.roundId) && new Date(gw.deadline) <= now)
+    .sort((a, b) =>
+      roundsById.get(a.roundId)!.number - roundsById.get(b.roundId)!.number || a.number - b.number
+    );
+  const revealedIds = new Set(revealedWeeks.map(gw => gw.id));
+
+  const byTeam = new Map<number, SeasonTeamStats>();
+  const teamRow = (teamId: number) => {
+    let row = byTeam.get(teamId);
+    if (!row) {
+      row = { ...teamDetails(teamsById, teamId), picks: 0, eliminations: 0 };
+      byTeam.set(teamId, row);
+    }
+    return row;
+  };
+
+  const revealedPicks = data.picks.filter(p => revealedIds.has(p.gameWeekId));
+  for (const pick of revealedPicks) {
+    teamRow(pick.teamId).picks++;
+  }
+
+  // A missed pick knocks a player out without any team to blame
+  for (const entry of data.entries) {
+    if (!entry.eliminatedGameWeekId || entry.eliminationReason === "no_pick") continue;
+    const pick = revealedPicks.find(p => p.gameWeekId === entry.eliminatedGameWeekId && p.userId === entry.userId);
+    if (pick) teamRow(pick.teamId).eliminations++;
+  }
+
+  const rows = Array.from(byTeam.values());
+  const gameWeeks: StatsGameWeek[] = revealedWeeks.map(gw => ({
+    id: gw.id,
+    roundNumber: roundsById.get(gw.roundId)!.number,
+    number: gw.number,
+  }));
+
+  return {
+    season: data.season,
+    gameWeeks,
+    mostPicked: [...rows]
+      .sort((a, b) => b.picks - a.picks || a.teamName.localeCompare(b.teamName))
+      .slice(0, SEASON_TEAM_LIMIT),
+    graveyard: rows
+      .filter(row => row.eliminations > 0)
+      .sort((a, b) => b.eliminations - a.eliminations || a.teamName.localeCompare(b.teamName))
+      .slice(0, SEASON_TEAM_LIMIT),
+  };
+}
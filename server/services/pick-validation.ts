@@ -0,0 +1,120 @@
+import {
+  isFixtureCalledOff,
+  type Fixture, type GameWeek, type Pick as PickType, type RoundEntry, type RoundRules,
+} from "@shared/schema";
+
+export type PickErrorCode =
+  | "DEADLINE_PASSED"
+  | "FIXTURE_STARTED"
+  | "FIXTURE_CALLED_OFF"
+  | "FIXTURE_NOT_IN_GAME_WEEK"
+  | "TEAM_NOT_IN_FIXTURE"
+  | "TEAM_ALREADY_USED"
+  | "AWAY_PICK_REQUIRED"
+  | "PICK_EXISTS"
+  | "ELIMINATED"
+  | "ROUND_IN_PROGRESS";
+
+export interface PickValidationError {
+  status: number;
+  code: PickErrorCode;
+  error: string;
+}
+
+export interface PickValidationContext {
+  gameWeek: GameWeek;
+  // Ids of the fixtures assigned to the game week
+  gameWeekFixtureIds: number[];
+  fixture: Fixture;
+  teamId: number;
+  rules: RoundRules;
+  // The player's entry in the round, if they have one yet
+  entry?: RoundEntry;
+  roundGameWeeks: GameWeek[];
+  // The player's picks across every game week of the round
+  roundPicks: Pick<PickType, "id" | "teamId" | "gameWeekId" | "isVoid">[];
+  // Set when changing an existing pick so it isn't counted against the new one
+  replacingPickId?: number;
+  // Moving a pick off a called-off fixture, which is allowed after the deadline
+  isRepick?: boolean;
+  now?: Date;
+}
+
+function pickError(status: number, code: PickErrorCode, error: string): PickValidationError {
+  return { status, code, error };
+}
+
+// A pick is locked once the game week deadline passes or its fixture kicks off
+export function checkPickLock(
+  gameWeek: GameWeek,
+  fixture: Fixture,
+  now: Date = new Date(),
+): PickValidationError | null {
+  if (now >= new Date(gameWeek.deadline)) {
+    return pickError(403, "DEADLINE_PASSED", "The deadline for this game week has passed");
+  }
+
+  if (now >= new Date(fixture.kickoff)) {
+    return pickError(403, "FIXTURE_STARTED", "This fixture has already kicked off");
+  }
+
+  return null;
+}
+
+// Under the "repick" policy a pick on a postponed or cancelled fixture can be
+// moved until the game week is settled, even after the deadline
+export function canRepick(gameWeek: GameWeek, fixture: Fixture, rules: RoundRules): boolean {
+  return rules.postponedPick === "repick" && isFixtureCalledOff(fixture) && !gameWeek.settledAt;
+}
+
+// Checks a new pick against the game week deadline, the fixture kickoff and the
+// round's rules on team reuse and away picks. Returns null when the pick is allowed.
+export function validatePick(ctx: PickValidationContext): PickValidationError | null {
+  const now = ctx.now ?? new Date();
+  const { gameWeek, fixture, teamId, rules } = ctx;
+
+  if (!ctx.gameWeekFixtureIds.includes(fixture.id)) {
+    return pickError(400, "FIXTURE_NOT_IN_GAME_WEEK", "Fixture is not part of the current game week");
+  }
+
+  if (isFixtureCalledOff(fixture)) {
+    return pickError(400, "FIXTURE_CALLED_OFF", "This fixture has been postponed or cancelled");
+  }
+
+  if (ctx.isRepick) {
+    if (now >= new Date(fixture.kickoff)) {
+      return pickError(403, "FIXTURE_STARTED", "This fixture has already kicked off");
+    }
+  } else {
+    const lockError = checkPickLock(gameWeek, fixture, now);
+    if (lockError) return lockError;
+  }
+
+  if (fixture.home_team_id !== teamId && fixture.away_team_id !== teamId) {
+    return pickError(400, "TEAM_NOT_IN_FIXTURE", "Selected team is not part of the fixture");
+  }
+
+  if (rules.awayPickGameWeeks.includes(gameWeek.number) && fixture.away_team_id !== teamId) {
+    return pickError(400, "AWAY_PICK_REQUIRED", "You must pick a team playing away this game week");
+  }
+
+  if (ctx.entry && ctx.entry.status !== "alive") {
+    return pickError(403, "ELIMINATED", "You are no longer in this round");
+  }
+
+  if (!ctx.entry && ctx.roundGameWeeks.some(gw => gw.settledAt)) {
+    return pickError(403, "ROUND_IN_PROGRESS", "This round is already under way");
+  }
+
+  const otherPicks = ctx.roundPicks.filter(p => p.id !== ctx.replacingPickId);
+
+  if (otherPicks.some(p => p.gameWeekId === gameWeek.id)) {
+    return pickError(409, "PICK_EXISTS", "You have already made a pick for this game week");
+  }
+
+  if (!rules.allowTeamReuse && otherPicks.some(p => p.teamId === teamId && !p.isVoid)) {
+    return pickError(409, "TEAM_ALREADY_USED", "You have already picked this team in this round");
+  }
+
+  return null;
+}
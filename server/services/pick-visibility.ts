@@ -0,0 +1,23 @@
+import type { GameWeek, GameWeekPicks, PickWithPlayer } from "@shared/schema";
+
+// Other players' picks stay hidden until the game week deadline so nobody can
+// copy them or pick against them. Before then the viewer only gets their own
+// pick and how many of the players still in the round have picked.
+export function buildGameWeekPicks(
+  gameWeek: GameWeek,
+  picks: PickWithPlayer[],
+  aliveCount: number,
+  viewerId: number,
+  now: Date = new Date(),
+): GameWeekPicks {
+  const isRevealed = now >= new Date(gameWeek.deadline);
+
+  return {
+    gameWeekId: gameWeek.id,
+    isRevealed,
+    deadline: gameWeek.deadline,
+    picks: isRevealed ? picks : picks.filter(p => p.userId === viewerId),
+    pickedCount: picks.length,
+    aliveCount: Math.max(aliveCount, picks.length),
+  };
+}
@@ -0,0 +1,60 @@
+import { getTableConfig, PgTable } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+// A column as information_schema.columns describes it
+export interface DatabaseColumn {
+  table_name: string;
+  column_name: string;
+  data_type: string;
+  is_nullable: "YES" | "NO";
+}
+
+// information_schema reports some types under a different name than drizzle declares them
+const databaseTypeNames: Record<string, string> = {
+  serial: "integer",
+  timestamp: "timestamp without time zone",
+};
+
+export function getSchemaTables(): PgTable[] {
+  return Object.values(schema as Record<string, unknown>).filter((value): value is PgTable => value instanceof PgTable);
+}
+
+// Lists every way the database differs from shared/schema.ts that would break
+// queries: missing tables or columns, and columns of the wrong type or
+// nullability. Columns the schema no longer declares are left alone.
+export function findSchemaDrift(tables: PgTable[], columns: DatabaseColumn[]): string[] {
+  const problems: string[] = [];
+  const byTable = new Map<string, Map<string, DatabaseColumn>>();
+  for (const column of columns) {
+    if (!byTable.has(column.table_name)) byTable.set(column.table_name, new Map());
+    byTable.get(column.table_name)!.set(column.column_name, column);
+  }
+
+  for (const table of tables) {
+    const config = getTableConfig(table);
+    const existing = byTable.get(config.name);
+    if (!existing) {
+      problems.push(`table ${config.name} is missing`);
+      continue;
+    }
+
+    for (const column of config.columns) {
+      const name = `${config.name}.${column.name}`;
+      const actual = existing.get(column.name);
+      if (!actual) {
+        problems.push(`column ${name} is missing`);
+        continue;
+      }
+
+      const expectedType = databaseTypeNames[column.getSQLType()] ?? column.getSQLType();
+      if (actual.data_type !== expectedType) {
+        problems.push(`column ${name} is ${actual.data_type}, expected ${expectedType}`);
+      }
+      if (column.notNull !== (actual.is_nullable === "NO")) {
+        problems.push(`column ${name} should be ${column.notNull ? "NOT NULL" : "nullable"}`);
+      }
+    }
+  }
+
+  return problems;
+}
@@ -0,0 +1,141 @@
+import {
+  isFixtureCalledOff,
+  type Fixture, type Pick as PickType, type RoundEntry, type RoundRules, type EliminationReason,
+} from "@shared/schema";
+
+// Result of a finished match from the perspective of the home side, using the
+// same values football-data.org reports in `score.winner`
+export type FixtureOutcome = "HOME_TEAM" | "AWAY_TEAM" | "DRAW";
+
+export interface SettlementResult {
+  fixtureId: number;
+  outcome: FixtureOutcome | null;
+  settled: number;
+  unchanged: number;
+}
+
+export function getFixtureOutcome(
+  fixture: Pick<Fixture, "status" | "winner" | "home_score" | "away_score">,
+): FixtureOutcome | null {
+  if (fixture.status !== "FINISHED") return null;
+
+  if (fixture.winner === "HOME_TEAM" || fixture.winner === "AWAY_TEAM" || fixture.winner === "DRAW") {
+    return fixture.winner;
+  }
+
+  // Fall back to the stored score when the API didn't give us a winner
+  if (fixture.home_score === null || fixture.away_score === null) return null;
+  if (fixture.home_score > fixture.away_score) return "HOME_TEAM";
+  if (fixture.home_score < fixture.away_score) return "AWAY_TEAM";
+  return "DRAW";
+}
+
+// A fixture is done with once it has a result or won't be played
+export function isFixtureSettled(fixture: Fixture): boolean {
+  return getFixtureOutcome(fixture) !== null || isFixtureCalledOff(fixture);
+}
+
+// Works out whether a pick survived its match under the round's rules: a win
+// always does, and a draw does unless draws count as losses. Returns null while
+// the fixture has no result yet.
+export function getPickResult(
+  pick: Pick<PickType, "teamId" | "isHomeTeam">,
+  fixture: Pick<Fixture, "home_team_id" | "away_team_id" | "status" | "winner" | "home_score" | "away_score">,
+  rules: Pick<RoundRules, "drawCountsAsLoss">,
+): boolean | null {
+  const outcome = getFixtureOutcome(fixture);
+  if (!outcome) return null;
+  if (outcome === "DRAW") return !rules.drawCountsAsLoss;
+
+  // Trust the team id over the stored flag in case the fixture was re-synced with swapped sides
+  let isHomeTeam = pick.isHomeTeam;
+  if (pick.teamId === fixture.home_team_id) isHomeTeam = true;
+  else if (pick.teamId === fixture.away_team_id) isHomeTeam = false;
+
+  return outcome === (isHomeTeam ? "HOME_TEAM" : "AWAY_TEAM");
+}
+
+export interface GameWeekResolution {
+  eliminations: { entryId: number; reason: EliminationReason }[];
+  // Players who failed this week but had a spare life
+  livesLost: { entryId: number; reason: EliminationReason; livesRemaining: number }[];
+  survivorIds: number[];
+  winnerIds: number[];
+  // Picks on called-off fixtures in a "void" round; their teams can be picked again
+  voidedPickIds: number[];
+}
+
+// Works out why a pick failed under the round's rules, or null if the player survives
+export function getPickFailure(
+  pick: PickType,
+  fixture: Fixture | undefined,
+  rules: RoundRules,
+): EliminationReason | null {
+  // A pick left on a called-off fixture under "repick" is treated as a missed
+  // pick before it gets here; the other policies let the player through
+  if (fixture && isFixtureCalledOff(fixture)) return null;
+
+  const outcome = fixture ? getFixtureOutcome(fixture) : null;
+  if (outcome === "DRAW") {
+    return rules.drawCountsAsLoss ? "drew" : null;
+  }
+
+  const isCorrect = fixture ? getPickResult(pick, fixture, rules) ?? pick.isCorrect : pick.isCorrect;
+  return isCorrect === false ? "lost" : null;
+}
+
+// Decides who goes out in a settled game week and whether the round now has a
+// winner. A failed pick costs a life and players are out when they run out. One
+// survivor wins outright; if everyone still alive goes out in the same week they
+// share the win.
+export function resolveGameWeek(
+  aliveEntries: RoundEntry[],
+  gameWeekPicks: PickType[],
+  gameWeekFixtures: Fixture[],
+  rules: RoundRules,
+): GameWeekResolution {
+  const eliminations: GameWeekResolution["eliminations"] = [];
+  const livesLost: GameWeekResolution["livesLost"] = [];
+  const survivorIds: number[] = [];
+  const voidedPickIds: number[] = [];
+
+  for (const entry of aliveEntries) {
+    const pick = gameWeekPicks.find(p => p.userId === entry.userId);
+    const fixture = pick && gameWeekFixtures.find(f => f.id === pick.fixtureId);
+    const calledOff = !!fixture && isFixtureCalledOff(fixture);
+    if (pick && calledOff && rules.postponedPick === "void") {
+      voidedPickIds.push(pick.id);
+    }
+
+    let reason: EliminationReason | null;
+    // Not moving a pick off a called-off fixture counts as not picking
+    if (!pick || (calledOff && rules.postponedPick === "repick")) {
+      // Under "eliminate" a missed pick is fatal however many lives are left
+      if (rules.missedPick === "eliminate") {
+        eliminations.push({ entryId: entry.id, reason: "no_pick" });
+        continue;
+      }
+      reason = "no_pick";
+    } else {
+      reason = getPickFailure(pick, fixture, rules);
+    }
+
+    if (!reason) {
+      survivorIds.push(entry.id);
+    } else if (entry.livesRemaining > 1) {
+      livesLost.push({ entryId: entry.id, reason, livesRemaining: entry.livesRemaining - 1 });
+      survivorIds.push(entry.id);
+    } else {
+      eliminations.push({ entryId: entry.id, reason });
+    }
+  }
+
+  let winnerIds: number[] = [];
+  if (survivorIds.length === 1) {
+    winnerIds = survivorIds;
+  } else if (survivorIds.length === 0) {
+    winnerIds = eliminations.map(e => e.entryId);
+  }
+
+  return { eliminations, livesLost, survivorIds, winnerIds, voidedPickIds };
+}
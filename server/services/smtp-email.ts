@@ -0,0 +1,28 @@
+import nodemailer from "nodemailer";
+import type { EmailTransport } from "./email-transport";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Use TLS from the start (port 465); otherwise STARTTLS is used when offered
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+export function createSmtpTransport(options: SmtpOptions): EmailTransport {
+  const mailer = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await mailer.sendMail({ from: options.from, ...message });
+    },
+  };
+}
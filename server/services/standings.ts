@@ -0,0 +1,127 @@
+import {
+  parseRoundRules,
+  type EntryStatus, type Fixture, type GameWeek, type LeaderboardPick, type Pick as PickType, type Round,
+  type RoundLeaderboard, type RoundStandingsEntry, type Season, type SeasonStandings, type SeasonTableRow, type Team,
+} from "@shared/schema";
+import { getPickFailure } from "./settlement";
+
+export interface StandingsData {
+  season: Season;
+  rounds: Round[];
+  gameWeeks: GameWeek[];
+  entries: RoundStandingsEntry[];
+  picks: PickType[];
+  teams: Team[];
+  fixtures: Fixture[];
+  now?: Date;
+}
+
+const statusOrder: Record<EntryStatus, number> = { winner: 0, alive: 1, eliminated: 2 };
+
+// Builds the per-round leaderboards and the all-time table for a season. Picks
+// only show once their game week's deadline has passed.
+export function buildSeasonStandings(data: StandingsData): SeasonStandings {
+  const now = data.now ?? new Date();
+  const teamsById = new Map(data.teams.map(t => [t.id, t]));
+  const fixturesById = new Map(data.fixtures.map(f => [f.id, f]));
+
+  const table = new Map<number, SeasonTableRow & { currentStreak: number }>();
+  const tableRow = (entry: RoundStandingsEntry) => {
+    let row = table.get(entry.userId);
+    if (!row) {
+      row = {
+        userId: entry.userId,
+        player: entry.player,
+        roundsPlayed: 0,
+        roundsWon: 0,
+        weeksSurvived: 0,
+        longestStreak: 0,
+        currentStreak: 0,
+      };
+      table.set(entry.userId, row);
+    }
+    return row;
+  };
+
+  const rounds = [...data.rounds].sort((a, b) => a.number - b.number);
+  const leaderboards: RoundLeaderboard[] = rounds.map(round => {
+    const rules = parseRoundRules(round.rules);
+    const roundWeeks = data.gameWeeks
+      .filter(gw => gw.roundId === round.id)
+      .sort((a, b) => a.number - b.number);
+    const settledWeeks = roundWeeks.filter(gw => gw.settledAt);
+    const lockedWeeks = roundWeeks.filter(gw => new Date(gw.deadline) <= now);
+    const roundEntries = data.entries.filter(e => e.roundId === round.id);
+
+    const entries = roundEntries.map(entry => {
+      const userPicks = data.picks.filter(p => p.roundId === round.id && p.userId === entry.userId);
+      const eliminatedWeek = roundWeeks.find(gw => gw.id === entry.eliminatedGameWeekId);
+      const weeksSurvived = eliminatedWeek
+        ? settledWeeks.filter(gw => gw.number < eliminatedWeek.number).length
+        : settledWeeks.length;
+
+      const picks: LeaderboardPick[] = [];
+      for (const gameWeek of lockedWeeks) {
+        const pick = userPicks.find(p => p.gameWeekId === gameWeek.id);
+        if (!pick) continue;
+        const team = teamsById.get(pick.teamId);
+        picks.push({
+          gameWeekId: gameWeek.id,
+          gameWeekNumber: gameWeek.number,
+          teamId: pick.teamId,
+          teamName: team?.name ?? "Unknown team",
+          teamCrest: team?.crest ?? null,
+          isCorrect: pick.isCorrect,
+          isAutoPick: pick.isAutoPick,
+        });
+      }
+
+      const row = tableRow(entry);
+      row.roundsPlayed++;
+      if (entry.status === "winner") row.roundsWon++;
+      row.weeksSurvived += weeksSurvived;
+
+      // A streak carries across rounds until a pick fails or is missed
+      for (const gameWeek of settledWeeks) {
+        if (eliminatedWeek && gameWeek.number > eliminatedWeek.number) break;
+        const pick = userPicks.find(p => p.gameWeekId === gameWeek.id);
+        const survived = !!pick && !getPickFailure(pick, fixturesById.get(pick.fixtureId), rules);
+        row.currentStreak = survived ? row.currentStreak + 1 : 0;
+        row.longestStreak = Math.max(row.longestStreak, row.currentStreak);
+      }
+
+      return {
+        userId: entry.userId,
+        player: entry.player,
+        status: entry.status,
+        livesRemaining: entry.livesRemaining,
+        weeksSurvived,
+        picks,
+      };
+    });
+
+    entries.sort((a, b) =>
+      statusOrder[a.status] - statusOrder[b.status] ||
+      b.weeksSurvived - a.weeksSurvived ||
+      a.player.displayName.localeCompare(b.player.displayName)
+    );
+
+    return {
+      round,
+      isComplete: roundEntries.some(e => e.status === "winner"),
+      settledWeeks: settledWeeks.length,
+      entries,
+    };
+  });
+
+  const rows = Array.from(table.values())
+    .map(({ currentStreak, ...row }) => row)
+    .sort((a, b) =>
+      b.roundsWon - a.roundsWon ||
+      b.weeksSurvived - a.weeksSurvived ||
+      b.longestStreak - a.longestStreak ||
+      a.player.displayName.localeCompare(b.player.displayName)
+    );
+
+  return { season: data.season, rounds: leaderboards, table: rows };
+}
@@ -0,0 +1,37 @@
+import type { Fixture } from "@shared/schema";
+
+const MINUTE = 60 * 1000;
+
+export const SYNC_INTERVALS = {
+  // Scores change by the minute while a match is on
+  live: 2 * MINUTE,
+  matchDay: 15 * MINUTE,
+  idle: 6 * 60 * MINUTE,
+};
+
+const LIVE_STATUSES = ["IN_PLAY", "PAUSED", "LIVE"];
+
+// Matches can run on past two hours and results can arrive late, so a fixture
+// that kicked off this long ago without finishing is still treated as live
+const LIVE_WINDOW = 3 * 60 * MINUTE;
+
+function isSameUtcDay(a: Date, b: Date) {
+  return a.toISOString().slice(0, 10) === b.toISOString().slice(0, 10);
+}
+
+// How long to wait before the next fixture sync, given the fixtures around now
+export function getSyncInterval(
+  fixtures: Pick<Fixture, "status" | "kickoff">[],
+  now: Date = new Date(),
+): number {
+  const isLive = fixtures.some(f => {
+    if (LIVE_STATUSES.includes(f.status)) return true;
+    const kickoff = new Date(f.kickoff).getTime();
+    return f.status !== "FINISHED" && kickoff <= now.getTime() && now.getTime() - kickoff < LIVE_WINDOW;
+  });
+  if (isLive) return SYNC_INTERVALS.live;
+
+  if (fixtures.some(f => isSameUtcDay(new Date(f.kickoff), now))) return SYNC_INTERVALS.matchDay;
+
+  return SYNC_INTERVALS.idle;
+}
@@ -0,0 +1,39 @@
+import { isFixtureCalledOff, type Fixture, type GameWeek, type Pick as PickType, type RoundRules, type Team } from "@shared/schema";
+
+export interface AvailableTeam extends Team {
+  isAvailable: boolean;
+}
+
+// Teams playing in a game week, flagged with whether the player may still pick
+// them under the round's rules. The player's pick for this game week doesn't
+// count as used, so it stays selectable while it can be changed, and neither do
+// voided picks.
+export function getAvailableTeams(
+  teams: Team[],
+  gameWeek: GameWeek,
+  gameWeekFixtures: Fixture[],
+  roundPicks: Pick<PickType, "teamId" | "gameWeekId" | "isVoid">[],
+  rules: RoundRules,
+): AvailableTeam[] {
+  // Teams whose match has been postponed or cancelled have nothing to pick
+  const playable = gameWeekFixtures.filter(f => !isFixtureCalledOff(f));
+  const teamIds = new Set([
+    ...playable.map(f => f.home_team_id),
+    ...playable.map(f => f.away_team_id),
+  ]);
+
+  // In away-pick weeks only the away sides can be picked
+  const awayOnly = rules.awayPickGameWeeks.includes(gameWeek.number);
+  const awayTeamIds = new Set(playable.map(f => f.away_team_id));
+
+  const previouslyPickedTeamIds = new Set(
+    rules.allowTeamReuse ? [] : roundPicks.filter(p => p.gameWeekId !== gameWeek.id && !p.isVoid).map(p => p.teamId)
+  );
+
+  return teams
+    .filter(team => teamIds.has(team.id))
+    .map(team => ({
+      ...team,
+      isAvailable: !previouslyPickedTeamIds.has(team.id) && (!awayOnly || awayTeamIds.has(team.id)),
+    }));
+}
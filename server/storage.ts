@@ -1,30 +1,105 @@
-import pg from "pg";
-import { drizzle } from "drizzle-orm/node-postgres";
+import type pg from "pg";
+import { randomBytes } from "crypto";
 import { IStorage } from "./types";
+import type { Database } from "./db";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import {
-  users, seasons, rounds, gameWeeks, teams, fixtures, picks,
+  users, seasons, rounds, gameWeeks, teams, fixtures, picks, roundEntries, pickHistory,
+  leagues, leagueMembers, gameWeekFixtures, jobRuns, notificationTemplates, notificationLog, authTokens, auditLog, parseRoundRules, isFixtureCalledOff,
   type User, type Season, type Round, type GameWeek, type Team, type Fixture, type Pick,
-  type InsertUser
+  type InsertUser, type RoundEntry, type RoundStandings, type EntryStatus, type PickHistory, type PickChange,
+  type League, type LeagueSummary, type LeagueMemberSummary, type RoundRules,
+  type JobRun, type JobRunTrigger, type JobRunOutcome, type SeasonStandings,
+  type PublicProfile, type UpdateProfile, type PickWithPlayer, type RoundStandingsEntry,
+  type GameWeekStats, type SeasonPickStats, type NotificationType, type NotificationTemplate,
+  type NotificationLogEntry, type UpdateNotificationTemplate, type AuthToken, type AuthTokenPurpose,
+  type UserRole, type UserRoundEntry, type AuditLogEntry, type InsertAuditLogEntry, type AuditLogQuery,
+  type AuditLogView, type FixtureResult, type LiveSurvival
 } from "@shared/schema";
-import { eq, and, inArray } from "drizzle-orm";
+import { eq, and, or, inArray, desc, isNull, isNotNull, count, lte, gte, gt, sql, type SQL } from "drizzle-orm";
+import {
+  getFixtureOutcome, getPickResult, resolveGameWeek, isFixtureSettled,
+  type SettlementResult, type GameWeekResolution
+} from "./services/settlement";
+import { getAvailableTeams } from "./services/team-availability";
+import { chooseAutoPick, type DeadlineResult } from "./services/auto-pick";
+import { buildSeasonStandings } from "./services/standings";
+import { buildGameWeekStats, buildSeasonPickStats } from "./services/pick-stats";
+import { buildLiveSurvival } from "./services/live-survival";
 
 const PostgresSessionStore = connectPg(session);
-const { Pool } = pg;
 
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL,
-});
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Rounds belonging to a league, or to the public game when leagueId is null
+function leagueScope(leagueId: number | null) {
+  return leagueId === null ? isNull(rounds.leagueId) : eq(rounds.leagueId, leagueId);
+}
+
+// Only the columns other players may see; the password hash and email never leave the users table here
+const publicProfileColumns = {
+  userId: users.id,
+  username: users.username,
+  displayName: users.displayName,
+  avatarUrl: users.avatarUrl,
+  teamId: teams.id,
+  teamName: teams.name,
+  teamCrest: teams.crest,
+};
+
+type PublicProfileRow = {
+  userId: number;
+  username: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+  teamId: number | null;
+  teamName: string | null;
+  teamCrest: string | null;
+};
+
+function toPublicProfile(row: PublicProfileRow): PublicProfile {
+  return {
+    userId: row.userId,
+    username: row.username,
+    displayName: row.displayName || row.username,
+    avatarUrl: row.avatarUrl,
+    favouriteTeam: row.teamId !== null && row.teamName !== null
+      ? { id: row.teamId, name: row.teamName, crest: row.teamCrest }
+      : null,
+  };
+}
+
+// Profile for a user id that no longer resolves, so a stray row never breaks a listing
+function unknownProfile(userId: number): PublicProfile {
+  return { userId, username: `player-${userId}`, displayName: "Unknown player", avatarUrl: null, favouriteTeam: null };
+}
+
+function fixtureResultFields(fixture: Fixture): Record<string, unknown> {
+  return {
+    status: fixture.status,
+    homeScore: fixture.home_score,
+    awayScore: fixture.away_score,
+    winner: fixture.winner,
+    locked: fixture.locked,
+  };
+}
+
+// The parts of a pick worth keeping in the audit log
+function pickAuditFields(pick: Pick): Record<string, unknown> {
+  return { gameWeekId: pick.gameWeekId, teamId: pick.teamId, fixtureId: pick.fixtureId, userId: pick.userId };
+}
+
+function generateInviteCode() {
+  return randomBytes(4).toString("hex").toUpperCase();
+}
 
 export class DatabaseStorage implements IStorage {
-  private db;
   sessionStore: session.Store;
 
-  constructor() {
-    this.db = drizzle(pool);
+  constructor(private db: Database, private pool: pg.Pool) {
     this.sessionStore = new PostgresSessionStore({
-      pool,
+      pool: this.pool,
       createTableIfMissing: true,
     });
   }
@@ -45,9 +120,119 @@ export class DatabaseStorage implements IStorage {
     return results[0];
   }
 
+  async getAllUsers(): Promise<User[]> {
+    return await this.db.select().from(users).orderBy(users.username);
+  }
+
+  async getUsersByIds(userIds: number[]): Promise<User[]> {
+    if (userIds.length === 0) return [];
+    return await this.db.select().from(users).where(inArray(users.id, userIds));
+  }
+
+  async getUsersByEmail(email: string): Promise<User[]> {
+    return await this.db.select().from(users).where(sql`lower(${users.email}) = lower(${email})`);
+  }
+
+  async updatePassword(userId: number, passwordHash: string): Promise<void> {
+    await this.db.update(users).set({ password: passwordHash }).where(eq(users.id, userId));
+  }
+
+  async markEmailVerified(userId: number, verifiedAt: Date = new Date()): Promise<void> {
+    await this.db.update(users).set({ emailVerifiedAt: verifiedAt }).where(eq(users.id, userId));
+  }
+
+  async setUserRole(userId: number, role: UserRole): Promise<User | undefined> {
+    const results = await this.db.update(users).set({ role }).where(eq(users.id, userId)).returning();
+    return results[0];
+  }
+
+  // Null re-enables the account
+  async setUserDisabled(userId: number, disabledAt: Date | null): Promise<User | undefined> {
+    const results = await this.db.update(users).set({ disabledAt }).where(eq(users.id, userId)).returning();
+    return results[0];
+  }
+
+  // Logs a user out everywhere, except the session given, e.g. after a password change
+  async deleteUserSessions(userId: number, exceptSessionId?: string): Promise<void> {
+    await this.pool.query(
+      `DELETE FROM "session" WHERE sess->'passport'->>'user' = $1 AND sid <> $2`,
+      [String(userId), exceptSessionId ?? ""],
+    );
+  }
+
+  // Auth token methods
+  // A new token replaces any unused one the user has for the same purpose
+  async createAuthToken(userId: number, purpose: AuthTokenPurpose, tokenHash: string, expiresAt: Date): Promise<AuthToken> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(authTokens)
+        .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose), isNull(authTokens.usedAt)));
+      const results = await tx.insert(authTokens).values({ userId, purpose, tokenHash, expiresAt }).returning();
+      return results[0];
+    });
+  }
+
+  // Marks a token used and returns it, or undefined if it is unknown, expired or already used
+  async consumeAuthToken(purpose: AuthTokenPurpose, tokenHash: string, now: Date = new Date()): Promise<AuthToken | undefined> {
+    const results = await this.db.update(authTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gt(authTokens.expiresAt, now),
+      ))
+      .returning();
+    return results[0];
+  }
+
+  // Profile methods
+  async getPublicProfile(userId: number): Promise<PublicProfile | undefined> {
+    const profiles = await this.getPublicProfiles([userId]);
+    return profiles.get(userId);
+  }
+
+  async getPublicProfiles(userIds: number[]): Promise<Map<number, PublicProfile>> {
+    const ids = Array.from(new Set(userIds));
+    if (ids.length === 0) return new Map();
+
+    const rows = await this.db.select(publicProfileColumns).from(users)
+      .leftJoin(teams, eq(users.favouriteTeamId, teams.id))
+      .where(inArray(users.id, ids));
+    return new Map(rows.map(row => [row.userId, toPublicProfile(row)]));
+  }
+
+  async updateProfile(userId: number, profile: UpdateProfile): Promise<PublicProfile> {
+    await this.db.update(users).set(profile).where(eq(users.id, userId));
+    return (await this.getPublicProfile(userId)) ?? unknownProfile(userId);
+  }
+
   // Season methods
-  async getActiveSeason(): Promise<Season | undefined> {
-    const results = await this.db.select().from(seasons).where(eq(seasons.isActive, true));
+  async getActiveSeason(competition: string): Promise<Season | undefined> {
+    const results = await this.db.select().from(seasons)
+      .where(and(eq(seasons.competition, competition), eq(seasons.isActive, true)));
+    return results[0];
+  }
+
+  // The season each competition being played syncs into: its active season, or
+  // failing that the latest season a league has its active round in. Fixtures
+  // are fetched per competition, so there is never more than one per competition.
+  async getActiveSeasons(): Promise<Season[]> {
+    const candidates = await this.db.select().from(seasons)
+      .where(or(
+        eq(seasons.isActive, true),
+        inArray(seasons.id, this.db.select({ id: rounds.seasonId }).from(rounds).where(eq(rounds.isActive, true))),
+      ))
+      .orderBy(desc(seasons.isActive), desc(seasons.startDate));
+
+    const byCompetition = new Map<string, Season>();
+    for (const season of candidates) {
+      if (!byCompetition.has(season.competition)) byCompetition.set(season.competition, season);
+    }
+    return Array.from(byCompetition.values());
+  }
+
+  async getSeason(id: number): Promise<Season | undefined> {
+    const results = await this.db.select().from(seasons).where(eq(seasons.id, id));
     return results[0];
   }
 
@@ -60,33 +245,59 @@ export class DatabaseStorage implements IStorage {
     return await this.db.select().from(seasons);
   }
 
-  async setActiveSeason(id: number): Promise<void> {
+  // Replaces the active season of the season's competition; other competitions keep running
+  async setActiveSeason(id: number, actorId: number | null = null): Promise<void> {
     const season = await this.db.select().from(seasons).where(eq(seasons.id, id)).then(rows => rows[0]);
     if (!season) throw new Error("Season not found");
+    const previous = await this.getActiveSeason(season.competition);
 
     await this.db.transaction(async (tx) => {
-      // First deactivate all seasons
-      await tx.update(seasons).set({ isActive: false });
+      await tx.insert(auditLog).values({
+        actorId,
+        action: "season.activated",
+        entityType: "season",
+        entityId: id,
+        before: { competition: season.competition, activeSeasonId: previous?.id ?? null },
+        after: { competition: season.competition, activeSeasonId: id },
+      });
 
-      // Then activate only the selected season
+      // Activate the selected season in place of the competition's others
+      await tx.update(seasons).set({ isActive: false }).where(eq(seasons.competition, season.competition));
       await tx.update(seasons).set({ isActive: true }).where(eq(seasons.id, id));
 
-      // Deactivate all rounds and game weeks as they're no longer valid
-      await tx.update(rounds).set({ isActive: false });
-      await tx.update(gameWeeks).set({ isActive: false });
+      // Rounds in the competition's other seasons are over
+      await tx.update(rounds).set({ isActive: false }).where(inArray(
+        rounds.seasonId,
+        tx.select({ id: seasons.id }).from(seasons).where(eq(seasons.competition, season.competition)),
+      ));
 
-      // Find the first round in this season and activate it
-      const [firstRound] = await tx
+      // Find the first round in this season for each league and activate it
+      const seasonRounds = await tx
         .select()
         .from(rounds)
         .where(eq(rounds.seasonId, id))
         .orderBy(rounds.number);
 
-      if (firstRound) {
+      const firstRounds = new Map<number | null, Round>();
+      for (const round of seasonRounds) {
+        if (!firstRounds.has(round.leagueId)) firstRounds.set(round.leagueId, round);
+      }
+
+      for (const firstRound of Array.from(firstRounds.values())) {
+        // A league plays one round at a time, so this replaces its round in any other competition
+        await tx.update(rounds).set({ isActive: false }).where(leagueScope(firstRound.leagueId));
         await tx.update(rounds)
           .set({ isActive: true })
           .where(eq(rounds.id, firstRound.id));
+      }
+
+      // Game weeks only run in active rounds, and this season's rounds start again from their first week
+      await tx.update(gameWeeks).set({ isActive: false }).where(inArray(
+        gameWeeks.roundId,
+        tx.select({ id: rounds.id }).from(rounds).where(or(eq(rounds.isActive, false), eq(rounds.seasonId, id))),
+      ));
 
+      for (const firstRound of Array.from(firstRounds.values())) {
         // Find the first game week in this round and activate it
         const [firstGameWeek] = await tx
           .select()
@@ -104,9 +315,20 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Round methods
-  async getActiveRound(seasonId: number): Promise<Round | undefined> {
+  // The round a league is playing, whichever competition's season it is in
+  async getActiveRound(leagueId: number | null = null): Promise<Round | undefined> {
     const results = await this.db.select().from(rounds)
-      .where(and(eq(rounds.seasonId, seasonId), eq(rounds.isActive, true)));
+      .where(and(eq(rounds.isActive, true), leagueScope(leagueId)));
+    return results[0];
+  }
+
+  async getRound(id: number): Promise<Round | undefined> {
+    const results = await this.db.select().from(rounds).where(eq(rounds.id, id));
+    return results[0];
+  }
+
+  async updateRoundRules(roundId: number, rules: RoundRules): Promise<Round> {
+    const results = await this.db.update(rounds).set({ rules }).where(eq(rounds.id, roundId)).returning();
     return results[0];
   }
 
@@ -119,19 +341,33 @@ export class DatabaseStorage implements IStorage {
     return await this.db.select().from(rounds);
   }
 
-  async setActiveRound(id: number): Promise<void> {
+  async setActiveRound(id: number, actorId: number | null = null): Promise<void> {
     const round = await this.db.select().from(rounds).where(eq(rounds.id, id)).then(rows => rows[0]);
     if (!round) throw new Error("Round not found");
+    const previous = await this.db.select({ id: rounds.id }).from(rounds)
+      .where(and(leagueScope(round.leagueId), eq(rounds.isActive, true)));
 
     await this.db.transaction(async (tx) => {
-      // First deactivate ALL rounds across ALL seasons
-      await tx.update(rounds).set({ isActive: false });
+      await tx.insert(auditLog).values({
+        actorId,
+        action: "round.activated",
+        entityType: "round",
+        entityId: id,
+        before: { leagueId: round.leagueId, activeRoundId: previous[0]?.id ?? null },
+        after: { leagueId: round.leagueId, activeRoundId: id },
+      });
+
+      // First deactivate the league's rounds across ALL seasons
+      await tx.update(rounds).set({ isActive: false }).where(leagueScope(round.leagueId));
 
       // Then activate only the selected round
       await tx.update(rounds).set({ isActive: true }).where(eq(rounds.id, id));
 
-      // Deactivate all game weeks first
-      await tx.update(gameWeeks).set({ isActive: false });
+      // Deactivate the league's game weeks first
+      await tx.update(gameWeeks).set({ isActive: false }).where(inArray(
+        gameWeeks.roundId,
+        tx.select({ id: rounds.id }).from(rounds).where(leagueScope(round.leagueId)),
+      ));
 
       // Find and activate the first game week in this round
       const [firstGameWeek] = await tx
@@ -160,17 +396,40 @@ export class DatabaseStorage implements IStorage {
     return results[0];
   }
 
+  async getGameWeek(id: number): Promise<GameWeek | undefined> {
+    const results = await this.db.select().from(gameWeeks).where(eq(gameWeeks.id, id));
+    return results[0];
+  }
+
   async getAllGameWeeks(): Promise<GameWeek[]> {
     return await this.db.select().from(gameWeeks);
   }
 
-  async setActiveGameWeek(id: number): Promise<void> {
+  async setActiveGameWeek(id: number, actorId: number | null = null): Promise<void> {
     const gameWeek = await this.db.select().from(gameWeeks).where(eq(gameWeeks.id, id)).then(rows => rows[0]);
     if (!gameWeek) throw new Error("Game week not found");
 
+    const round = await this.getRound(gameWeek.roundId);
+    if (!round) throw new Error("Round not found");
+    const previous = await this.db.select({ id: gameWeeks.id }).from(gameWeeks)
+      .innerJoin(rounds, eq(gameWeeks.roundId, rounds.id))
+      .where(and(leagueScope(round.leagueId), eq(gameWeeks.isActive, true)));
+
     await this.db.transaction(async (tx) => {
-      // First deactivate ALL game weeks
-      await tx.update(gameWeeks).set({ isActive: false });
+      await tx.insert(auditLog).values({
+        actorId,
+        action: "game_week.activated",
+        entityType: "game_week",
+        entityId: id,
+        before: { leagueId: round.leagueId, activeGameWeekId: previous[0]?.id ?? null },
+        after: { leagueId: round.leagueId, activeGameWeekId: id },
+      });
+
+      // First deactivate ALL game weeks in the same league
+      await tx.update(gameWeeks).set({ isActive: false }).where(inArray(
+        gameWeeks.roundId,
+        tx.select({ id: rounds.id }).from(rounds).where(leagueScope(round.leagueId)),
+      ));
 
       // Then activate only the selected game week
       await tx.update(gameWeeks)
@@ -184,12 +443,27 @@ export class DatabaseStorage implements IStorage {
     return await this.db.select().from(teams);
   }
 
+  async getTeam(id: number): Promise<Team | undefined> {
+    const results = await this.db.select().from(teams).where(eq(teams.id, id));
+    return results[0];
+  }
+
+  async getTeamByName(name: string, competition: string): Promise<Team | undefined> {
+    const results = await this.db.select().from(teams)
+      .where(and(eq(teams.name, name), eq(teams.competition, competition)));
+    return results[0];
+  }
+
+  async getTeamsByCompetition(competition: string): Promise<Team[]> {
+    return await this.db.select().from(teams).where(eq(teams.competition, competition)).orderBy(teams.name);
+  }
+
   async createTeam(team: Omit<Team, "id">): Promise<Team> {
     const results = await this.db.insert(teams).values(team).returning();
     return results[0];
   }
 
-  async updateTeam(id: number, teamData: Partial<Omit<Team, "id" | "name">>): Promise<Team> {
+  async updateTeam(id: number, teamData: Partial<Omit<Team, "id" | "name" | "competition">>): Promise<Team> {
     const results = await this.db
       .update(teams)
       .set(teamData)
@@ -200,7 +474,20 @@ export class DatabaseStorage implements IStorage {
 
   // Fixture methods
   async getFixturesByGameWeek(gameWeekId: number): Promise<Fixture[]> {
-    return await this.db.select().from(fixtures).where(eq(fixtures.game_week_id, gameWeekId));
+    const rows = await this.db
+      .select({ fixture: fixtures })
+      .from(gameWeekFixtures)
+      .innerJoin(fixtures, eq(gameWeekFixtures.fixtureId, fixtures.id))
+      .where(eq(gameWeekFixtures.gameWeekId, gameWeekId));
+    return rows.map(row => row.fixture);
+  }
+
+  async getGameWeekIdsByFixture(fixtureId: number): Promise<number[]> {
+    const rows = await this.db
+      .select({ gameWeekId: gameWeekFixtures.gameWeekId })
+      .from(gameWeekFixtures)
+      .where(eq(gameWeekFixtures.fixtureId, fixtureId));
+    return rows.map(row => row.gameWeekId);
   }
   
   async getFixturesByGameWeekWithTeams(gameWeekId: number): Promise<any[]> {
@@ -215,14 +502,15 @@ export class DatabaseStorage implements IStorage {
         away_team.name as away_team_name,
         away_team.tla as away_team_tla,
         away_team.crest as away_team_crest
-      FROM fixtures f
+      FROM game_week_fixtures gwf
+      JOIN fixtures f ON f.id = gwf.fixture_id
       LEFT JOIN teams home_team ON f.home_team_id = home_team.id
       LEFT JOIN teams away_team ON f.away_team_id = away_team.id
-      WHERE f.game_week_id = $1
+      WHERE gwf.game_week_id = $1
       ORDER BY f.kickoff ASC
     `;
 
-    const result = await pool.query(query, [gameWeekId]);
+    const result = await this.pool.query(query, [gameWeekId]);
 
     return result.rows.map(row => ({
       id: row.id,
@@ -230,7 +518,7 @@ export class DatabaseStorage implements IStorage {
       status: row.status,
       home_score: row.home_score,
       away_score: row.away_score,
-      gameWeekId: row.game_week_id,
+      gameWeekId,
       homeTeam: {
         id: row.home_team_id,
         name: row.home_team_name,
@@ -252,20 +540,139 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Pick methods
-  async createPick(pick: Omit<Pick, "id">): Promise<Pick> {
-    const results = await this.db.insert(picks).values(pick).returning();
+  async getPick(id: number): Promise<Pick | undefined> {
+    const results = await this.db.select().from(picks).where(eq(picks.id, id));
     return results[0];
   }
 
+  // A player's first pick in a round also enters them into it. Both are written
+  // together, and a racing first pick finds the entry already there.
+  async createPick(pick: Omit<Pick, "id">): Promise<Pick> {
+    const round = await this.getRound(pick.roundId);
+    if (!round) throw new Error("Round not found");
+    const { lives } = parseRoundRules(round.rules);
+
+    return await this.db.transaction(async (tx) => {
+      await tx.insert(roundEntries)
+        .values({ roundId: pick.roundId, userId: pick.userId, livesRemaining: lives })
+        .onConflictDoNothing({ target: [roundEntries.roundId, roundEntries.userId] });
+      return await this.insertPick(tx, pick);
+    });
+  }
+
+  // Saves a pick along with its history and audit entries, inside the caller's transaction
+  private async insertPick(tx: Transaction, pick: Omit<Pick, "id">): Promise<Pick> {
+    const [created] = await tx.insert(picks).values(pick).returning();
+    await tx.insert(pickHistory).values({
+      pickId: created.id,
+      userId: created.userId,
+      gameWeekId: created.gameWeekId,
+      action: created.isAutoPick ? "auto_picked" : "created",
+      teamId: created.teamId,
+      fixtureId: created.fixtureId,
+    });
+    await tx.insert(auditLog).values({
+      actorId: created.isAutoPick ? null : created.userId,
+      action: created.isAutoPick ? "pick.auto_picked" : "pick.created",
+      entityType: "pick",
+      entityId: created.id,
+      before: null,
+      after: pickAuditFields(created),
+    });
+    return created;
+  }
+
+  async updatePick(id: number, pickData: PickChange): Promise<Pick> {
+    const existing = await this.getPick(id);
+    if (!existing) throw new Error("Pick not found");
+
+    return await this.db.transaction(async (tx) => {
+      const [updated] = await tx.update(picks).set(pickData).where(eq(picks.id, id)).returning();
+      await tx.insert(pickHistory).values({
+        pickId: id,
+        userId: existing.userId,
+        gameWeekId: existing.gameWeekId,
+        action: "changed",
+        previousTeamId: existing.teamId,
+        previousFixtureId: existing.fixtureId,
+        teamId: updated.teamId,
+        fixtureId: updated.fixtureId,
+      });
+      await tx.insert(auditLog).values({
+        actorId: existing.userId,
+        action: "pick.changed",
+        entityType: "pick",
+        entityId: id,
+        before: pickAuditFields(existing),
+        after: pickAuditFields(updated),
+      });
+      return updated;
+    });
+  }
+
+  async deletePick(id: number): Promise<void> {
+    const existing = await this.getPick(id);
+    if (!existing) throw new Error("Pick not found");
+
+    await this.db.transaction(async (tx) => {
+      await tx.delete(picks).where(eq(picks.id, id));
+      await tx.insert(pickHistory).values({
+        pickId: id,
+        userId: existing.userId,
+        gameWeekId: existing.gameWeekId,
+        action: "withdrawn",
+        previousTeamId: existing.teamId,
+        previousFixtureId: existing.fixtureId,
+      });
+      await tx.insert(auditLog).values({
+        actorId: existing.userId,
+        action: "pick.withdrawn",
+        entityType: "pick",
+        entityId: id,
+        before: pickAuditFields(existing),
+        after: null,
+      });
+    });
+  }
+
+  async getPickHistoryByUser(userId: number): Promise<PickHistory[]> {
+    return await this.db.select().from(pickHistory)
+      .where(eq(pickHistory.userId, userId))
+      .orderBy(desc(pickHistory.changedAt));
+  }
+
   async getPicksByGameWeek(gameWeekId: number): Promise<Pick[]> {
     return await this.db.select().from(picks).where(eq(picks.gameWeekId, gameWeekId));
   }
 
+  async getPicksWithPlayersByGameWeek(gameWeekId: number): Promise<PickWithPlayer[]> {
+    const gameWeekPicks = await this.getPicksByGameWeek(gameWeekId);
+    const profiles = await this.getPublicProfiles(gameWeekPicks.map(p => p.userId));
+    return gameWeekPicks.map(pick => ({
+      ...pick,
+      player: profiles.get(pick.userId) ?? unknownProfile(pick.userId),
+    }));
+  }
+
+  async getFixtureByExternalId(externalId: number): Promise<Fixture | undefined> {
+    const results = await this.db.select().from(fixtures).where(eq(fixtures.external_id, externalId));
+    return results[0];
+  }
+
+  async getFixturesByKickoff(from: Date, to: Date): Promise<Fixture[]> {
+    return await this.db.select().from(fixtures)
+      .where(and(gte(fixtures.kickoff, from), lte(fixtures.kickoff, to)));
+  }
+
+  async getFixturesBySeason(seasonId: number): Promise<Fixture[]> {
+    return await this.db.select().from(fixtures).where(eq(fixtures.season_id, seasonId));
+  }
+
   async getPicksByUser(userId: number): Promise<Pick[]> {
     return await this.db.select().from(picks).where(eq(picks.userId, userId));
   }
 
-  async createOrUpdateFixture(fixture: Omit<Fixture, "id"> & { external_id: number }): Promise<Fixture> {
+  async createOrUpdateFixture(fixture: Omit<Fixture, "id" | "locked"> & { external_id: number }): Promise<Fixture> {
     // Check if fixture already exists
     const existingFixture = await this.db
       .select()
@@ -273,38 +680,449 @@ export class DatabaseStorage implements IStorage {
       .where(eq(fixtures.external_id, fixture.external_id))
       .then(rows => rows[0]);
 
+    let result: Fixture;
     if (existingFixture) {
-      // Update existing fixture but preserve game_week_id, round_id, and season_id
+      // A result an admin has locked wins over whatever the provider says
+      const resultFields = existingFixture.locked ? {} : {
+        home_score: fixture.home_score,
+        away_score: fixture.away_score,
+        status: fixture.status,
+        winner: fixture.winner,
+      };
+
+      // Update existing fixture but preserve season_id
       const results = await this.db
         .update(fixtures)
         .set({
-          // Don't update these fields to preserve game week assignments
-          // game_week_id: fixture.game_week_id,
-          // round_id: fixture.round_id,
-          // season_id: fixture.season_id,
-          
-          // Only update the match data
+          // Only update the match data, game week assignments live in game_week_fixtures
           home_team_id: fixture.home_team_id,
           away_team_id: fixture.away_team_id,
-          home_score: fixture.home_score,
-          away_score: fixture.away_score,
           kickoff: fixture.kickoff,
-          status: fixture.status,
           selected: fixture.selected,
-          winner: fixture.winner,
           external_season_id: fixture.external_season_id,
+          ...resultFields,
         })
         .where(eq(fixtures.external_id, fixture.external_id))
         .returning();
-      return results[0];
+      result = results[0];
     } else {
       // Create new fixture
       const results = await this.db
         .insert(fixtures)
         .values(fixture)
         .returning();
-      return results[0];
+      result = results[0];
+    }
+
+    // Settle any picks on this fixture as soon as a final result is stored, or
+    // the match is called off
+    if (result.status === "FINISHED" || isFixtureCalledOff(result)) {
+      await this.settlePicksForFixture(result.id);
+    }
+
+    return result;
+  }
+
+  async getPicksByFixture(fixtureId: number): Promise<Pick[]> {
+    return await this.db.select().from(picks).where(eq(picks.fixtureId, fixtureId));
+  }
+
+  async settlePicksForFixture(fixtureId: number, actorId: number | null = null): Promise<SettlementResult> {
+    const fixture = await this.getFixtureById(fixtureId);
+    if (!fixture) throw new Error("Fixture not found");
+
+    const outcome = getFixtureOutcome(fixture);
+    const result: SettlementResult = { fixtureId, outcome, settled: 0, unchanged: 0 };
+    // A called-off fixture has no result, but picks settled on an earlier one are cleared
+    if (!outcome && !isFixtureCalledOff(fixture)) return result;
+
+    const fixturePicks = await this.getPicksByFixture(fixtureId);
+    // Whether a draw is survived depends on each pick's round
+    const roundIds = Array.from(new Set(fixturePicks.map(p => p.roundId)));
+    const roundRules = new Map(roundIds.length === 0 ? [] : (await this.db.select().from(rounds)
+      .where(inArray(rounds.id, roundIds)))
+      .map(round => [round.id, parseRoundRules(round.rules)]));
+
+    await this.db.transaction(async (tx) => {
+      const changed: { id: number; from: boolean | null; to: boolean | null }[] = [];
+      for (const pick of fixturePicks) {
+        const isCorrect = getPickResult(pick, fixture, roundRules.get(pick.roundId) ?? parseRoundRules({}));
+
+        // Only write picks whose result actually changes so re-syncs are no-ops
+        if (pick.isCorrect === isCorrect) {
+          result.unchanged++;
+          continue;
+        }
+
+        await tx.update(picks).set({ isCorrect }).where(eq(picks.id, pick.id));
+        changed.push({ id: pick.id, from: pick.isCorrect, to: isCorrect });
+        result.settled++;
+      }
+
+      if (changed.length > 0) {
+        await tx.insert(auditLog).values({
+          actorId,
+          action: "fixture.settled",
+          entityType: "fixture",
+          entityId: fixtureId,
+          before: { picks: changed.map(c => ({ id: c.id, isCorrect: c.from })) },
+          after: { outcome, picks: changed.map(c => ({ id: c.id, isCorrect: c.to })) },
+        });
+      }
+    });
+
+    // Apply eliminations once the last fixture of a game week has a result or is called off
+    for (const gameWeekId of await this.getGameWeekIdsByFixture(fixtureId)) {
+      if (await this.isGameWeekReadyToSettle(gameWeekId)) {
+        await this.settleGameWeek(gameWeekId, actorId);
+      }
+    }
+
+    return result;
+  }
+
+  // Round entry methods
+  async getRoundEntries(roundId: number): Promise<RoundEntry[]> {
+    return await this.db.select().from(roundEntries).where(eq(roundEntries.roundId, roundId));
+  }
+
+  // Players who can still pick in a game week. Entries are only created by a
+  // first pick, so in a round's opening week everyone who could join is included.
+  // Disabled accounts can't sign in to pick, so they are left out.
+  async getPotentialPickerIds(gameWeek: GameWeek): Promise<number[]> {
+    const round = await this.getRound(gameWeek.roundId);
+    if (!round) return [];
+
+    const entries = await this.getRoundEntries(round.id);
+    const userIds = new Set(entries.filter(e => e.status === "alive").map(e => e.userId));
+
+    const roundWeeks = await this.getGameWeeksByRound(round.id);
+    const isOpeningWeek = roundWeeks.every(gw => gw.number >= gameWeek.number);
+    if (isOpeningWeek) {
+      const players = round.leagueId !== null
+        ? (await this.getLeagueMembers(round.leagueId)).map(m => m.userId)
+        : (await this.getAllUsers()).map(u => u.id);
+      const enteredIds = new Set(entries.map(e => e.userId));
+      for (const userId of players) {
+        if (!enteredIds.has(userId)) userIds.add(userId);
+      }
+    }
+
+    return (await this.getUsersByIds(Array.from(userIds)))
+      .filter(user => user.disabledAt === null)
+      .map(user => user.id);
+  }
+
+  async getRoundEntry(roundId: number, userId: number): Promise<RoundEntry | undefined> {
+    const results = await this.db.select().from(roundEntries)
+      .where(and(eq(roundEntries.roundId, roundId), eq(roundEntries.userId, userId)));
+    return results[0];
+  }
+
+  async createRoundEntry(roundId: number, userId: number): Promise<RoundEntry> {
+    const round = await this.getRound(roundId);
+    if (!round) throw new Error("Round not found");
+
+    const { lives } = parseRoundRules(round.rules);
+    const results = await this.db.insert(roundEntries)
+      .values({ roundId, userId, livesRemaining: lives })
+      .returning();
+    return results[0];
+  }
+
+  async getRoundEntriesByUser(userId: number): Promise<UserRoundEntry[]> {
+    const results = await this.db.select({ entry: roundEntries, round: rounds })
+      .from(roundEntries)
+      .innerJoin(rounds, eq(roundEntries.roundId, rounds.id))
+      .where(eq(roundEntries.userId, userId))
+      .orderBy(desc(roundEntries.joinedAt));
+    return results.map(({ entry, round }) => ({ ...entry, round }));
+  }
+
+  // Puts a player back in a round with the full lives its rules allow
+  async reinstateRoundEntry(roundId: number, userId: number): Promise<RoundEntry | undefined> {
+    const round = await this.getRound(roundId);
+    if (!round) throw new Error("Round not found");
+
+    const { lives } = parseRoundRules(round.rules);
+    const results = await this.db.update(roundEntries)
+      .set({ status: "alive", livesRemaining: lives, eliminatedGameWeekId: null, eliminationReason: null })
+      .where(and(eq(roundEntries.roundId, roundId), eq(roundEntries.userId, userId)))
+      .returning();
+    return results[0];
+  }
+
+  // Attaches each entry's public profile
+  private async withPlayers(entries: RoundEntry[]): Promise<RoundStandingsEntry[]> {
+    const profiles = await this.getPublicProfiles(entries.map(e => e.userId));
+    return entries.map(entry => ({
+      ...entry,
+      player: profiles.get(entry.userId) ?? unknownProfile(entry.userId),
+    }));
+  }
+
+  async getRoundStandings(roundId: number): Promise<RoundStandings> {
+    const roundEntryRows = await this.getRoundEntries(roundId);
+
+    // Winners first, then players still alive, then the eliminated
+    const statusOrder: Record<EntryStatus, number> = { winner: 0, alive: 1, eliminated: 2 };
+    const entries = (await this.withPlayers(roundEntryRows))
+      .sort((a, b) =>
+        statusOrder[a.status] - statusOrder[b.status] ||
+        (b.eliminatedGameWeekId ?? 0) - (a.eliminatedGameWeekId ?? 0) ||
+        a.player.displayName.localeCompare(b.player.displayName)
+      );
+
+    return {
+      roundId,
+      isComplete: entries.some(e => e.status === "winner"),
+      aliveCount: entries.filter(e => e.status === "alive").length,
+      entries,
+    };
+  }
+
+  async getSeasonStandings(seasonId: number, leagueId: number | null = null): Promise<SeasonStandings | undefined> {
+    const season = await this.getSeason(seasonId);
+    if (!season) return undefined;
+
+    const seasonRounds = await this.db.select().from(rounds)
+      .where(and(eq(rounds.seasonId, seasonId), leagueScope(leagueId)));
+    const roundIds = seasonRounds.map(r => r.id);
+    if (roundIds.length === 0) {
+      return { season, rounds: [], table: [] };
     }
+
+    const roundGameWeeks = await this.db.select().from(gameWeeks).where(inArray(gameWeeks.roundId, roundIds));
+    const entryRows = await this.db.select().from(roundEntries).where(inArray(roundEntries.roundId, roundIds));
+    const roundPicks = await this.db.select().from(picks).where(inArray(picks.roundId, roundIds));
+
+    return buildSeasonStandings({
+      season,
+      rounds: seasonRounds,
+      gameWeeks: roundGameWeeks,
+      entries: await this.withPlayers(entryRows),
+      picks: roundPicks,
+      teams: await this.getTeams(),
+      fixtures: await this.getFixturesBySeason(seasonId),
+    });
+  }
+
+  async getGameWeekStats(gameWeekId: number): Promise<GameWeekStats | undefined> {
+    const gameWeek = await this.getGameWeek(gameWeekId);
+    const round = gameWeek && await this.getRound(gameWeek.roundId);
+    if (!gameWeek || !round) return undefined;
+
+    return buildGameWeekStats(
+      gameWeek,
+      round,
+      await this.getPicksByGameWeek(gameWeekId),
+      await this.getFixturesByGameWeek(gameWeekId),
+      await this.getTeams(),
+      await this.getRoundEntries(round.id),
+    );
+  }
+
+  async getLiveSurvival(gameWeekId: number, viewerId: number): Promise<LiveSurvival | undefined> {
+    const gameWeek = await this.getGameWeek(gameWeekId);
+    const round = gameWeek && await this.getRound(gameWeek.roundId);
+    if (!gameWeek || !round) return undefined;
+
+    return buildLiveSurvival(
+      gameWeek,
+      round,
+      await this.getPicksByGameWeek(gameWeekId),
+      await this.getFixturesByGameWeek(gameWeekId),
+      await this.getRoundEntries(round.id),
+      viewerId,
+    );
+  }
+
+  async getSeasonPickStats(seasonId: number, leagueId: number | null = null): Promise<SeasonPickStats | undefined> {
+    const season = await this.getSeason(seasonId);
+    if (!season) return undefined;
+
+    const seasonRounds = await this.db.select().from(rounds)
+      .where(and(eq(rounds.seasonId, seasonId), leagueScope(leagueId)));
+    const roundIds = seasonRounds.map(r => r.id);
+    if (roundIds.length === 0) {
+      return { season, gameWeeks: [], mostPicked: [], graveyard: [] };
+    }
+
+    return buildSeasonPickStats({
+      season,
+      rounds: seasonRounds,
+      gameWeeks: await this.db.select().from(gameWeeks).where(inArray(gameWeeks.roundId, roundIds)),
+      entries: await this.db.select().from(roundEntries).where(inArray(roundEntries.roundId, roundIds)),
+      picks: await this.db.select().from(picks).where(inArray(picks.roundId, roundIds)),
+      teams: await this.getTeams(),
+    });
+  }
+
+  async isGameWeekReadyToSettle(gameWeekId: number): Promise<boolean> {
+    const gameWeek = await this.getGameWeek(gameWeekId);
+    if (!gameWeek || gameWeek.settledAt) return false;
+
+    const gameWeekFixtures = await this.getFixturesByGameWeek(gameWeekId);
+    return gameWeekFixtures.length > 0 && gameWeekFixtures.every(isFixtureSettled);
+  }
+
+  // Runs in one transaction holding the game week's row lock, so a result
+  // override, a sync and an admin settling at once apply the week only once
+  async settleGameWeek(gameWeekId: number, actorId: number | null = null): Promise<GameWeekResolution | null> {
+    return await this.db.transaction(async (tx) => {
+      const [gameWeek] = await tx.select().from(gameWeeks).where(eq(gameWeeks.id, gameWeekId)).for("update");
+      if (!gameWeek) throw new Error("Game week not found");
+
+      // Already applied, nothing to do
+      if (gameWeek.settledAt) return null;
+
+      const gameWeekFixtures = await this.getFixturesByGameWeek(gameWeekId);
+      if (!gameWeekFixtures.every(isFixtureSettled)) {
+        throw new Error("Game week still has fixtures without a result");
+      }
+
+      const round = await this.getRound(gameWeek.roundId);
+      if (!round) throw new Error("Round not found");
+
+      const gameWeekPicks = await tx.select().from(picks).where(eq(picks.gameWeekId, gameWeekId));
+      // Players knocked out at this week's deadline for not picking are resolved again
+      // so they still share the win if nobody survives the week
+      const aliveEntries = (await tx.select().from(roundEntries).where(eq(roundEntries.roundId, gameWeek.roundId)))
+        .filter(entry =>
+          entry.status === "alive" ||
+          (entry.eliminatedGameWeekId === gameWeekId && entry.eliminationReason === "no_pick")
+        );
+
+      const resolution = resolveGameWeek(aliveEntries, gameWeekPicks, gameWeekFixtures, parseRoundRules(round.rules));
+
+      for (const { entryId, reason } of resolution.eliminations) {
+        await tx.update(roundEntries)
+          .set({ status: "eliminated", livesRemaining: 0, eliminatedGameWeekId: gameWeekId, eliminationReason: reason })
+          .where(eq(roundEntries.id, entryId));
+      }
+
+      for (const { entryId, livesRemaining } of resolution.livesLost) {
+        await tx.update(roundEntries).set({ livesRemaining }).where(eq(roundEntries.id, entryId));
+      }
+
+      if (resolution.voidedPickIds.length > 0) {
+        await tx.update(picks).set({ isVoid: true }).where(inArray(picks.id, resolution.voidedPickIds));
+      }
+
+      if (resolution.winnerIds.length > 0) {
+        await tx.update(roundEntries)
+          .set({ status: "winner" })
+          .where(inArray(roundEntries.id, resolution.winnerIds));
+      }
+
+      const settledAt = new Date();
+      await tx.update(gameWeeks).set({ settledAt }).where(eq(gameWeeks.id, gameWeekId));
+      await tx.insert(auditLog).values({
+        actorId,
+        action: "game_week.settled",
+        entityType: "game_week",
+        entityId: gameWeekId,
+        before: { settledAt: null, aliveEntryIds: aliveEntries.map(e => e.id) },
+        after: { settledAt, ...resolution },
+      });
+
+      return resolution;
+    });
+  }
+
+  async getGameWeeksAwaitingDeadline(now: Date = new Date()): Promise<GameWeek[]> {
+    return await this.db.select().from(gameWeeks)
+      .where(and(
+        lte(gameWeeks.deadline, now),
+        isNull(gameWeeks.deadlineProcessedAt),
+        // Settlement has already dealt with missed picks in these
+        isNull(gameWeeks.settledAt),
+      ));
+  }
+
+  async getGameWeeksWithDeadlineBetween(from: Date, to: Date): Promise<GameWeek[]> {
+    return await this.db.select().from(gameWeeks)
+      .where(and(gt(gameWeeks.deadline, from), lte(gameWeeks.deadline, to), isNull(gameWeeks.settledAt)));
+  }
+
+  async getGameWeeksSettledSince(since: Date): Promise<GameWeek[]> {
+    return await this.db.select().from(gameWeeks)
+      .where(and(isNotNull(gameWeeks.settledAt), gte(gameWeeks.settledAt, since)));
+  }
+
+  // Deals with alive players who have no pick once a game week's deadline passes:
+  // either knocks them out or gives them a team, depending on the round's rules
+  // Returns null when the week was already processed, or is being processed by
+  // another run. Everything is written in one transaction, so a failed run
+  // leaves no auto-picks behind and can simply be retried.
+  async processGameWeekDeadline(gameWeekId: number, now: Date = new Date()): Promise<DeadlineResult | null> {
+    const { acquired, result } = await this.withJobLock(`game_week_deadline:${gameWeekId}`, () =>
+      this.db.transaction(async (tx) => {
+        // The row lock holds off anything else marking the week processed until this commits
+        const [gameWeek] = await tx.select().from(gameWeeks).where(eq(gameWeeks.id, gameWeekId)).for("update");
+        if (!gameWeek) throw new Error("Game week not found");
+
+        // Already processed, nothing to do
+        if (gameWeek.deadlineProcessedAt) return null;
+
+        const round = await this.getRound(gameWeek.roundId);
+        if (!round) throw new Error("Round not found");
+        const rules = parseRoundRules(round.rules);
+
+        const gameWeekPicks = await tx.select().from(picks).where(eq(picks.gameWeekId, gameWeekId));
+        const missingEntries = (await tx.select().from(roundEntries).where(eq(roundEntries.roundId, round.id)))
+          .filter(entry => entry.status === "alive" && !gameWeekPicks.some(p => p.userId === entry.userId));
+
+        const result: DeadlineResult = { gameWeekId, eliminatedEntryIds: [], autoPicks: [], unassignedEntryIds: [] };
+
+        if (rules.missedPick === "eliminate") {
+          result.eliminatedEntryIds = missingEntries.map(entry => entry.id);
+          if (result.eliminatedEntryIds.length > 0) {
+            await tx.update(roundEntries)
+              .set({ status: "eliminated", livesRemaining: 0, eliminatedGameWeekId: gameWeekId, eliminationReason: "no_pick" })
+              .where(inArray(roundEntries.id, result.eliminatedEntryIds));
+          }
+        } else {
+          const teams = await this.getTeams();
+          const gameWeekFixtures = await this.getFixturesByGameWeek(gameWeekId);
+          const seasonFixtures = await this.getFixturesBySeason(round.seasonId);
+          const roundGameWeekIds = (await this.getGameWeeksByRound(round.id)).map(gw => gw.id);
+
+          for (const entry of missingEntries) {
+            const roundPicks = await this.getPicksByGameWeeks(entry.userId, roundGameWeekIds);
+            const available = getAvailableTeams(teams, gameWeek, gameWeekFixtures, roundPicks, rules)
+              .filter(team => team.isAvailable);
+
+            const choice = chooseAutoPick(available, gameWeekFixtures, seasonFixtures, rules.autoPickStrategy, now);
+            if (!choice) {
+              // Left without a pick, so settlement treats it as a missed pick
+              result.unassignedEntryIds.push(entry.id);
+              continue;
+            }
+
+            const pick = await this.insertPick(tx, {
+              userId: entry.userId,
+              teamId: choice.team.id,
+              gameWeekId,
+              roundId: round.id,
+              seasonId: round.seasonId,
+              fixtureId: choice.fixture.id,
+              externalId: choice.fixture.external_id,
+              isHomeTeam: choice.fixture.home_team_id === choice.team.id,
+              isCorrect: null,
+              isVoid: false,
+              pickedAt: now,
+              isAutoPick: true,
+            });
+            result.autoPicks.push(pick);
+          }
+        }
+
+        await tx.update(gameWeeks).set({ deadlineProcessedAt: now }).where(eq(gameWeeks.id, gameWeekId));
+        return result;
+      })
+    );
+    return acquired ? result ?? null : null;
   }
 
   async getAllFixturesWithTeams(): Promise<any[]> {
@@ -319,13 +1137,14 @@ export class DatabaseStorage implements IStorage {
         away_team.id as away_team_id,
         away_team.name as away_team_name,
         away_team.tla as away_team_tla,
-        away_team.crest as away_team_crest
+        away_team.crest as away_team_crest,
+        ARRAY(SELECT gwf.game_week_id FROM game_week_fixtures gwf WHERE gwf.fixture_id = f.id) as game_week_ids
       FROM fixtures f
       LEFT JOIN teams home_team ON f.home_team_id = home_team.id
       LEFT JOIN teams away_team ON f.away_team_id = away_team.id
     `;
 
-    const result = await pool.query(query);
+    const result = await this.pool.query(query);
 
     // Transform the raw results into the expected format
     return result.rows.map(row => ({
@@ -339,8 +1158,9 @@ export class DatabaseStorage implements IStorage {
       status: row.status,
       selected: row.selected,
       winner: row.winner,
+      locked: row.locked,
       season_id: row.season_id,
-      gameWeekId: row.game_week_id,
+      gameWeekIds: row.game_week_ids,
       homeTeam: {
         id: row.home_team_id,
         name: row.home_team_name,
@@ -356,7 +1176,8 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  async getUnassignedFixturesBySeasonId(seasonId: number): Promise<any[]> {
+  // Fixtures in the season that aren't yet in any game week of the given league
+  async getUnassignedFixturesBySeasonId(seasonId: number, leagueId: number | null = null): Promise<any[]> {
     // Use SQL query to properly join with teams table twice
     const query = `
       SELECT 
@@ -373,12 +1194,17 @@ export class DatabaseStorage implements IStorage {
       LEFT JOIN teams home_team ON f.home_team_id = home_team.id
       LEFT JOIN teams away_team ON f.away_team_id = away_team.id
       WHERE f.season_id = $1 
-      AND (f.game_week_id IS NULL OR f.game_week_id = 0)
+      AND NOT EXISTS (
+        SELECT 1 FROM game_week_fixtures gwf
+        JOIN game_weeks gw ON gw.id = gwf.game_week_id
+        JOIN rounds r ON r.id = gw.round_id
+        WHERE gwf.fixture_id = f.id AND r.league_id IS NOT DISTINCT FROM $2
+      )
       ORDER BY f.kickoff ASC
     `;
 
     console.log('Executing query with seasonId:', seasonId);
-    const result = await pool.query(query, [seasonId]);
+    const result = await this.pool.query(query, [seasonId, leagueId]);
     console.log('Query result rows:', result.rows.length);
 
     return result.rows.map(row => ({
@@ -402,16 +1228,29 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  async updateFixturesGameWeek(fixtureIds: number[], gameWeekId: number, roundId: number, seasonId: number): Promise<void> {
-    const query = `
-      UPDATE fixtures 
-      SET game_week_id = $1,
-          round_id = $2,
-          season_id = $3
-      WHERE id = ANY($4)
-    `;
+  async updateFixturesGameWeek(fixtureIds: number[], gameWeekId: number, actorId: number | null = null): Promise<void> {
+    if (fixtureIds.length === 0) return;
+
+    await this.db.transaction(async (tx) => {
+      const existing = await tx.select({ fixtureId: gameWeekFixtures.fixtureId }).from(gameWeekFixtures)
+        .where(eq(gameWeekFixtures.gameWeekId, gameWeekId));
+      const added = await tx
+        .insert(gameWeekFixtures)
+        .values(fixtureIds.map(fixtureId => ({ gameWeekId, fixtureId })))
+        .onConflictDoNothing()
+        .returning();
+      if (added.length === 0) return;
 
-    await pool.query(query, [gameWeekId, roundId, seasonId, fixtureIds]);
+      const before = existing.map(row => row.fixtureId);
+      await tx.insert(auditLog).values({
+        actorId,
+        action: "fixtures.assigned",
+        entityType: "game_week",
+        entityId: gameWeekId,
+        before: { fixtureIds: before },
+        after: { fixtureIds: [...before, ...added.map(row => row.fixtureId)] },
+      });
+    });
   }
 
   async getGameWeeksByRound(roundId: number): Promise<GameWeek[]> {
@@ -421,12 +1260,13 @@ export class DatabaseStorage implements IStorage {
   async getPicksByGameWeeks(userId: number, gameWeekIds: number[]): Promise<Pick[]> {
     // Use a raw SQL query to avoid the column name mismatch issue
     const query = `
-      SELECT id, user_id as "userId", game_week_id as "gameWeekId", team_id as "teamId", is_correct as "isCorrect" 
+      SELECT id, user_id as "userId", game_week_id as "gameWeekId", team_id as "teamId", is_correct as "isCorrect",
+        is_void as "isVoid"
       FROM picks 
       WHERE user_id = $1 AND game_week_id = ANY($2)
     `;
     
-    const result = await pool.query(query, [userId, gameWeekIds]);
+    const result = await this.pool.query(query, [userId, gameWeekIds]);
     return result.rows;
   }
   
@@ -434,6 +1274,220 @@ export class DatabaseStorage implements IStorage {
     const [fixture] = await this.db.select().from(fixtures).where(eq(fixtures.id, fixtureId));
     return fixture;
   }
-}
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+  // An admin's correction to a fixture. Picks on it are settled again straight away.
+  async overrideFixtureResult(fixtureId: number, result: FixtureResult, actorId: number): Promise<Fixture> {
+    const existing = await this.getFixtureById(fixtureId);
+    if (!existing) throw new Error("Fixture not found");
+
+    const finished = result.status === "FINISHED";
+    const updated = await this.db.transaction(async (tx) => {
+      const [row] = await tx.update(fixtures)
+        .set({
+          status: result.status,
+          home_score: finished ? result.homeScore : null,
+          away_score: finished ? result.awayScore : null,
+          winner: finished ? result.winner : null,
+          locked: result.locked,
+        })
+        .where(eq(fixtures.id, fixtureId))
+        .returning();
+      await tx.insert(auditLog).values({
+        actorId,
+        action: "fixture.result_overridden",
+        entityType: "fixture",
+        entityId: fixtureId,
+        before: fixtureResultFields(existing),
+        after: fixtureResultFields(row),
+      });
+      return row;
+    });
+
+    await this.settlePicksForFixture(fixtureId, actorId);
+    return updated;
+  }
+
+  // League methods
+  async createLeague(name: string, ownerId: number): Promise<League> {
+    return await this.db.transaction(async (tx) => {
+      const [league] = await tx.insert(leagues)
+        .values({ name, ownerId, inviteCode: generateInviteCode() })
+        .returning();
+      await tx.insert(leagueMembers).values({ leagueId: league.id, userId: ownerId });
+      return league;
+    });
+  }
+
+  async getLeague(id: number): Promise<League | undefined> {
+    const results = await this.db.select().from(leagues).where(eq(leagues.id, id));
+    return results[0];
+  }
+
+  async getLeagueByInviteCode(inviteCode: string): Promise<League | undefined> {
+    const results = await this.db.select().from(leagues).where(eq(leagues.inviteCode, inviteCode));
+    return results[0];
+  }
+
+  async getAllLeagues(): Promise<League[]> {
+    return await this.db.select().from(leagues).orderBy(leagues.name);
+  }
+
+  async getLeaguesByUser(userId: number): Promise<LeagueSummary[]> {
+    const memberCounts = this.db
+      .select({ leagueId: leagueMembers.leagueId, memberCount: count().as("member_count") })
+      .from(leagueMembers)
+      .groupBy(leagueMembers.leagueId)
+      .as("member_counts");
+
+    const rows = await this.db
+      .select({ league: leagues, memberCount: memberCounts.memberCount })
+      .from(leagueMembers)
+      .innerJoin(leagues, eq(leagueMembers.leagueId, leagues.id))
+      .innerJoin(memberCounts, eq(memberCounts.leagueId, leagues.id))
+      .where(eq(leagueMembers.userId, userId))
+      .orderBy(leagues.name);
+
+    return rows.map(row => ({
+      ...row.league,
+      memberCount: Number(row.memberCount),
+      isOwner: row.league.ownerId === userId,
+    }));
+  }
+
+  async getLeagueMembers(leagueId: number): Promise<LeagueMemberSummary[]> {
+    const rows = await this.db
+      .select({ member: leagueMembers, username: users.username })
+      .from(leagueMembers)
+      .innerJoin(users, eq(leagueMembers.userId, users.id))
+      .where(eq(leagueMembers.leagueId, leagueId))
+      .orderBy(users.username);
+    return rows.map(row => ({ ...row.member, username: row.username }));
+  }
+
+  async isLeagueMember(leagueId: number, userId: number): Promise<boolean> {
+    const results = await this.db.select().from(leagueMembers)
+      .where(and(eq(leagueMembers.leagueId, leagueId), eq(leagueMembers.userId, userId)));
+    return results.length > 0;
+  }
+
+  async addLeagueMember(leagueId: number, userId: number): Promise<void> {
+    await this.db.insert(leagueMembers).values({ leagueId, userId }).onConflictDoNothing();
+  }
+
+  async setActiveLeague(userId: number, leagueId: number | null): Promise<void> {
+    await this.db.update(users).set({ activeLeagueId: leagueId }).where(eq(users.id, userId));
+  }
+
+  // Job run methods
+  async createJobRun(job: string, trigger: JobRunTrigger): Promise<JobRun> {
+    const results = await this.db.insert(jobRuns).values({ job, trigger }).returning();
+    return results[0];
+  }
+
+  async finishJobRun(id: number, outcome: JobRunOutcome): Promise<JobRun> {
+    const results = await this.db.update(jobRuns)
+      .set({ ...outcome, finishedAt: new Date() })
+      .where(eq(jobRuns.id, id))
+      .returning();
+    return results[0];
+  }
+
+  async getJobRuns(limit: number = 50, job?: string): Promise<JobRun[]> {
+    return await this.db.select().from(jobRuns)
+      .where(job ? eq(jobRuns.job, job) : undefined)
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(limit);
+  }
+
+  // Runs fn while holding a Postgres advisory lock named after the job, so only one
+  // server process can run it at a time. Returns acquired: false if another holds it.
+  async withJobLock<T>(job: string, fn: () => Promise<T>): Promise<{ acquired: boolean; result?: T }> {
+    const client = await this.pool.connect();
+    try {
+      const lock = await client.query("SELECT pg_try_advisory_lock(hashtext($1)) AS locked", [job]);
+      if (!lock.rows[0]?.locked) return { acquired: false };
+
+      try {
+        return { acquired: true, result: await fn() };
+      } finally {
+        await client.query("SELECT pg_advisory_unlock(hashtext($1))", [job]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  // Notification methods
+  async getNotificationTemplates(): Promise<NotificationTemplate[]> {
+    return await this.db.select().from(notificationTemplates);
+  }
+
+  async saveNotificationTemplate(type: NotificationType, template: UpdateNotificationTemplate): Promise<NotificationTemplate> {
+    const results = await this.db.insert(notificationTemplates)
+      .values({ type, ...template })
+      .onConflictDoUpdate({
+        target: notificationTemplates.type,
+        set: { ...template, updatedAt: new Date() },
+      })
+      .returning();
+    return results[0];
+  }
+
+  async deleteNotificationTemplate(type: NotificationType): Promise<void> {
+    await this.db.delete(notificationTemplates).where(eq(notificationTemplates.type, type));
+  }
+
+  async setNotificationOptOuts(userId: number, optOuts: NotificationType[]): Promise<void> {
+    await this.db.update(users).set({ notificationOptOuts: optOuts }).where(eq(users.id, userId));
+  }
+
+  // Records that an email is about to go out. Returns undefined if it was already
+  // sent or is being sent by another process; a failed one can be claimed again.
+  async claimNotification(userId: number, type: NotificationType, key: string): Promise<NotificationLogEntry | undefined> {
+    const results = await this.db.insert(notificationLog)
+      .values({ userId, type, key })
+      .onConflictDoUpdate({
+        target: [notificationLog.userId, notificationLog.type, notificationLog.key],
+        set: { status: "pending", error: null },
+        setWhere: eq(notificationLog.status, "failed"),
+      })
+      .returning();
+    return results[0];
+  }
+
+  async finishNotification(id: number, error?: string): Promise<void> {
+    await this.db.update(notificationLog)
+      .set(error ? { status: "failed", error } : { status: "sent", sentAt: new Date() })
+      .where(eq(notificationLog.id, id));
+  }
+
+  // Audit log methods
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const results = await this.db.insert(auditLog).values(entry).returning();
+    return results[0];
+  }
+
+  // Newest first
+  async getAuditLog(query: AuditLogQuery): Promise<AuditLogView[]> {
+    const conditions = [
+      query.action && eq(auditLog.action, query.action),
+      query.entityType && eq(auditLog.entityType, query.entityType),
+      query.entityId && eq(auditLog.entityId, query.entityId),
+      query.actorId && eq(auditLog.actorId, query.actorId),
+      query.from && gte(auditLog.createdAt, query.from),
+      query.to && lte(auditLog.createdAt, query.to),
+    ].filter((condition): condition is SQL => !!condition);
+
+    const entries = await this.db.select().from(auditLog)
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(query.limit);
+
+    const actorIds = entries.flatMap(e => e.actorId === null ? [] : [e.actorId]);
+    const profiles = await this.getPublicProfiles(actorIds);
+    return entries.map(entry => ({
+      ...entry,
+      actor: entry.actorId === null ? null : profiles.get(entry.actorId) ?? unknownProfile(entry.actorId),
+    }));
+  }
+}
\ No newline at end of file
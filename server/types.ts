@@ -1,8 +1,15 @@
 import type { Store } from "express-session";
 import type {
   User, Season, Round, GameWeek, Team, Fixture, Pick,
-  InsertUser
+  InsertUser, RoundEntry, RoundStandings, PickHistory, PickChange,
+  League, LeagueSummary, LeagueMemberSummary, RoundRules, JobRun, JobRunTrigger, JobRunOutcome,
+  SeasonStandings, PublicProfile, UpdateProfile, PickWithPlayer,
+  GameWeekStats, SeasonPickStats, NotificationType, NotificationTemplate, NotificationLogEntry,
+  UpdateNotificationTemplate, AuthToken, AuthTokenPurpose, UserRole, UserRoundEntry, AuditLogEntry, InsertAuditLogEntry,
+  AuditLogQuery, AuditLogView, FixtureResult, LiveSurvival
 } from "@shared/schema";
+import type { SettlementResult, GameWeekResolution } from "./services/settlement";
+import type { DeadlineResult } from "./services/auto-pick";
 
 export interface IStorage {
   sessionStore: Store;
@@ -11,35 +18,134 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getAllUsers(): Promise<User[]>;
+  getUsersByIds(userIds: number[]): Promise<User[]>;
+  getUsersByEmail(email: string): Promise<User[]>;
+  updatePassword(userId: number, passwordHash: string): Promise<void>;
+  markEmailVerified(userId: number, verifiedAt?: Date): Promise<void>;
+  setUserRole(userId: number, role: UserRole): Promise<User | undefined>;
+  setUserDisabled(userId: number, disabledAt: Date | null): Promise<User | undefined>;
+  deleteUserSessions(userId: number, exceptSessionId?: string): Promise<void>;
+
+  // Auth token methods
+  createAuthToken(userId: number, purpose: AuthTokenPurpose, tokenHash: string, expiresAt: Date): Promise<AuthToken>;
+  consumeAuthToken(purpose: AuthTokenPurpose, tokenHash: string, now?: Date): Promise<AuthToken | undefined>;
+
+  // Profile methods
+  getPublicProfile(userId: number): Promise<PublicProfile | undefined>;
+  getPublicProfiles(userIds: number[]): Promise<Map<number, PublicProfile>>;
+  updateProfile(userId: number, profile: UpdateProfile): Promise<PublicProfile>;
 
   // Season methods
-  getActiveSeason(): Promise<Season | undefined>;
+  getActiveSeason(competition: string): Promise<Season | undefined>;
+  getActiveSeasons(): Promise<Season[]>;
+  getSeason(id: number): Promise<Season | undefined>;
   getAllSeasons(): Promise<Season[]>;
   createSeason(season: Omit<Season, "id">): Promise<Season>;
-  setActiveSeason(id: number): Promise<void>;
+  // actorId is the admin making the change, recorded in the audit log; null for background jobs
+  setActiveSeason(id: number, actorId?: number | null): Promise<void>;
 
   // Round methods
-  getActiveRound(seasonId: number): Promise<Round | undefined>;
+  getActiveRound(leagueId?: number | null): Promise<Round | undefined>;
+  getRound(id: number): Promise<Round | undefined>;
+  updateRoundRules(roundId: number, rules: RoundRules): Promise<Round>;
   getAllRounds(): Promise<Round[]>;
   createRound(round: Omit<Round, "id">): Promise<Round>;
-  setActiveRound(id: number): Promise<void>;
+  setActiveRound(id: number, actorId?: number | null): Promise<void>;
 
   // Game week methods
   getActiveGameWeek(roundId: number): Promise<GameWeek | undefined>;
+  getGameWeek(id: number): Promise<GameWeek | undefined>;
+  getGameWeeksByRound(roundId: number): Promise<GameWeek[]>;
   getAllGameWeeks(): Promise<GameWeek[]>;
   createGameWeek(gameWeek: Omit<GameWeek, "id">): Promise<GameWeek>;
-  setActiveGameWeek(id: number): Promise<void>;
+  setActiveGameWeek(id: number, actorId?: number | null): Promise<void>;
 
   // Team methods
   getTeams(): Promise<Team[]>;
+  getTeam(id: number): Promise<Team | undefined>;
+  getTeamByName(name: string, competition: string): Promise<Team | undefined>;
+  getTeamsByCompetition(competition: string): Promise<Team[]>;
   createTeam(team: Omit<Team, "id">): Promise<Team>;
+  updateTeam(id: number, teamData: Partial<Omit<Team, "id" | "name" | "competition">>): Promise<Team>;
 
   // Fixture methods
   getFixturesByGameWeek(gameWeekId: number): Promise<Fixture[]>;
+  getFixturesByGameWeekWithTeams(gameWeekId: number): Promise<any[]>;
+  getAllFixturesWithTeams(): Promise<any[]>;
+  getUnassignedFixturesBySeasonId(seasonId: number, leagueId?: number | null): Promise<any[]>;
   createFixture(fixture: Omit<Fixture, "id">): Promise<Fixture>;
+  // Inserts a synced fixture, or refreshes the one with the same external_id; a locked result is kept
+  createOrUpdateFixture(fixture: Omit<Fixture, "id" | "locked"> & { external_id: number }): Promise<Fixture>;
+  getFixtureById(fixtureId: number): Promise<Fixture | undefined>;
+  getGameWeekIdsByFixture(fixtureId: number): Promise<number[]>;
+  updateFixturesGameWeek(fixtureIds: number[], gameWeekId: number, actorId?: number | null): Promise<void>;
 
   // Pick methods
+  getPick(id: number): Promise<Pick | undefined>;
+  // Also enters the player into the pick's round if this is their first pick in it
   createPick(pick: Omit<Pick, "id">): Promise<Pick>;
+  updatePick(id: number, pick: PickChange): Promise<Pick>;
+  deletePick(id: number): Promise<void>;
+  getPickHistoryByUser(userId: number): Promise<PickHistory[]>;
   getPicksByGameWeek(gameWeekId: number): Promise<Pick[]>;
+  getPicksByGameWeeks(userId: number, gameWeekIds: number[]): Promise<Pick[]>;
+  getPicksWithPlayersByGameWeek(gameWeekId: number): Promise<PickWithPlayer[]>;
   getPicksByUser(userId: number): Promise<Pick[]>;
+  getFixtureByExternalId(externalId: number): Promise<Fixture | undefined>;
+  getFixturesByKickoff(from: Date, to: Date): Promise<Fixture[]>;
+  getFixturesBySeason(seasonId: number): Promise<Fixture[]>;
+  getPicksByFixture(fixtureId: number): Promise<Pick[]>;
+
+  // Settlement methods
+  settlePicksForFixture(fixtureId: number, actorId?: number | null): Promise<SettlementResult>;
+  overrideFixtureResult(fixtureId: number, result: FixtureResult, actorId: number): Promise<Fixture>;
+  isGameWeekReadyToSettle(gameWeekId: number): Promise<boolean>;
+  settleGameWeek(gameWeekId: number, actorId?: number | null): Promise<GameWeekResolution | null>;
+  getGameWeeksWithDeadlineBetween(from: Date, to: Date): Promise<GameWeek[]>;
+  getGameWeeksSettledSince(since: Date): Promise<GameWeek[]>;
+  getGameWeeksAwaitingDeadline(now?: Date): Promise<GameWeek[]>;
+  processGameWeekDeadline(gameWeekId: number, now?: Date): Promise<DeadlineResult | null>;
+
+  // Round entry methods
+  getRoundEntries(roundId: number): Promise<RoundEntry[]>;
+  getRoundEntry(roundId: number, userId: number): Promise<RoundEntry | undefined>;
+  getPotentialPickerIds(gameWeek: GameWeek): Promise<number[]>;
+  createRoundEntry(roundId: number, userId: number): Promise<RoundEntry>;
+  getRoundEntriesByUser(userId: number): Promise<UserRoundEntry[]>;
+  reinstateRoundEntry(roundId: number, userId: number): Promise<RoundEntry | undefined>;
+  getRoundStandings(roundId: number): Promise<RoundStandings>;
+  getSeasonStandings(seasonId: number, leagueId?: number | null): Promise<SeasonStandings | undefined>;
+  getGameWeekStats(gameWeekId: number): Promise<GameWeekStats | undefined>;
+  getLiveSurvival(gameWeekId: number, viewerId: number): Promise<LiveSurvival | undefined>;
+  getSeasonPickStats(seasonId: number, leagueId?: number | null): Promise<SeasonPickStats | undefined>;
+
+  // League methods
+  createLeague(name: string, ownerId: number): Promise<League>;
+  getLeague(id: number): Promise<League | undefined>;
+  getLeagueByInviteCode(inviteCode: string): Promise<League | undefined>;
+  getAllLeagues(): Promise<League[]>;
+  getLeaguesByUser(userId: number): Promise<LeagueSummary[]>;
+  getLeagueMembers(leagueId: number): Promise<LeagueMemberSummary[]>;
+  isLeagueMember(leagueId: number, userId: number): Promise<boolean>;
+  addLeagueMember(leagueId: number, userId: number): Promise<void>;
+  setActiveLeague(userId: number, leagueId: number | null): Promise<void>;
+
+  // Job run methods
+  createJobRun(job: string, trigger: JobRunTrigger): Promise<JobRun>;
+  finishJobRun(id: number, outcome: JobRunOutcome): Promise<JobRun>;
+  getJobRuns(limit?: number, job?: string): Promise<JobRun[]>;
+  withJobLock<T>(job: string, fn: () => Promise<T>): Promise<{ acquired: boolean; result?: T }>;
+
+  // Notification methods
+  getNotificationTemplates(): Promise<NotificationTemplate[]>;
+  saveNotificationTemplate(type: NotificationType, template: UpdateNotificationTemplate): Promise<NotificationTemplate>;
+  deleteNotificationTemplate(type: NotificationType): Promise<void>;
+  setNotificationOptOuts(userId: number, optOuts: NotificationType[]): Promise<void>;
+  claimNotification(userId: number, type: NotificationType, key: string): Promise<NotificationLogEntry | undefined>;
+  finishNotification(id: number, error?: string): Promise<void>;
+
+  // Audit log methods
+  createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  getAuditLog(query: AuditLogQuery): Promise<AuditLogView[]>;
 }
\ No newline at end of file
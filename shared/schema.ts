@@ -1,57 +1,197 @@
-import { pgTable, text, serial, integer, boolean, timestamp, unique } from "drizzle-orm/pg-core";
+import {
+  pgTable, text, serial, integer, boolean, timestamp, unique, uniqueIndex, index, check, jsonb, type AnyPgColumn,
+} from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Ordered from least to most access; each role can do everything the ones before it can
+export const userRoles = ["player", "organiser", "super_admin"] as const;
+export const userRoleLabels: Record<UserRole, string> = {
+  player: "Player",
+  organiser: "League organiser",
+  super_admin: "Super admin",
+};
+
+export function hasRole(user: { role: UserRole } | null | undefined, role: UserRole): boolean {
+  return !!user && userRoles.indexOf(user.role) >= userRoles.indexOf(role);
+}
+
 // Users table with role
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   email: text("email").notNull(),
-  isAdmin: boolean("is_admin").notNull().default(false),
+  role: text("role", { enum: userRoles }).notNull().default("player"),
+  // Set when an admin blocks the account from signing in
+  disabledAt: timestamp("disabled_at"),
+  // League the player is currently viewing, null for the public game
+  activeLeagueId: integer("active_league_id").references((): AnyPgColumn => leagues.id, { onDelete: "set null" }),
+  // Profile shown to other players; the username is used when no display name is set
+  displayName: text("display_name"),
+  avatarUrl: text("avatar_url"),
+  favouriteTeamId: integer("favourite_team_id").references((): AnyPgColumn => teams.id, { onDelete: "set null" }),
+  // Email types the player has turned off
+  notificationOptOuts: jsonb("notification_opt_outs").$type<NotificationType[]>().notNull().default([]),
+  emailVerifiedAt: timestamp("email_verified_at"),
+}, (t) => ({
+  // One account per email address, ignoring case
+  emailUnique: uniqueIndex("users_email_lower_unique").on(sql`lower(${t.email})`),
+}));
+
+export const authTokenPurposes = ["password_reset", "email_verification"] as const;
+
+// Single-use links emailed to a user. Only a hash of the token is stored.
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  purpose: text("purpose", { enum: authTokenPurposes }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (t) => ({
+  userIdx: index("auth_tokens_user_id_idx").on(t.userId),
+}));
+
+// Private competitions, joined with an invite code
+export const leagues = pgTable("leagues", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  ownerId: integer("owner_id").notNull().references(() => users.id),
+  inviteCode: text("invite_code").notNull().unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+export const leagueMembers = pgTable("league_members", {
+  id: serial("id").primaryKey(),
+  leagueId: integer("league_id").notNull().references(() => leagues.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  joinedAt: timestamp("joined_at").notNull().defaultNow(),
+}, (t) => ({
+  unq: unique().on(t.leagueId, t.userId),
+  userIdx: index("league_members_user_id_idx").on(t.userId),
+}));
+
+// Competitions fixtures can be synced for, keyed by their football-data.org code
+export const competitions = [
+  { code: "PL", name: "Premier League" },
+  { code: "ELC", name: "Championship" },
+  { code: "FL1", name: "Ligue 1" },
+  { code: "BL1", name: "Bundesliga" },
+  { code: "SA", name: "Serie A" },
+  { code: "PD", name: "La Liga" },
+  { code: "CL", name: "Champions League" },
+  { code: "EC", name: "European Championship" },
+  { code: "WC", name: "FIFA World Cup" },
+] as const;
+
+export const competitionCodes = competitions.map(c => c.code) as [CompetitionCode, ...CompetitionCode[]];
+
 export const seasons = pgTable("seasons", {
   id: serial("id").primaryKey(),
-  name: text("name").notNull().unique(),
+  name: text("name").notNull(),
+  competition: text("competition").notNull().default("PL"),
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
   isActive: boolean("is_active").notNull().default(false),
+}, (t) => ({
+  // Season names only need to be unique within a competition, e.g. "2024/25" for each
+  unq: unique().on(t.competition, t.name),
+  dates: check("seasons_dates_check", sql`${t.endDate} >= ${t.startDate}`),
+}));
+
+export const missedPickPolicies = ["eliminate", "auto_pick"] as const;
+export const postponedPickPolicies = ["repick", "survive", "void"] as const;
+export const autoPickStrategies = ["alphabetical", "lowest_ranked"] as const;
+
+// The variant of the game a round is played under. Stored as JSON on the round;
+// rows written before a rule existed fall back to its default when parsed.
+export const roundRulesSchema = z.object({
+  // When false a draw is survived just like a win
+  drawCountsAsLoss: z.boolean().default(true),
+  // Number of failed picks a player can make before they are out
+  lives: z.number().int().min(1).max(10).default(1),
+  allowTeamReuse: z.boolean().default(false),
+  // Game week numbers in which the picked team must be playing away
+  awayPickGameWeeks: z.array(z.number().int().positive()).default([]),
+  // "eliminate" knocks out a player with no pick; "auto_pick" assigns them a team
+  missedPick: z.enum(missedPickPolicies).default("eliminate"),
+  // Which available team an auto pick goes to
+  autoPickStrategy: z.enum(autoPickStrategies).default("alphabetical"),
+  // What happens to a pick on a postponed or cancelled fixture: "repick" lets the
+  // player move it to a fixture that hasn't started, "survive" counts it as a win
+  // and "void" lets the player through without using up the team
+  postponedPick: z.enum(postponedPickPolicies).default("void"),
 });
 
+export type RoundRules = z.infer<typeof roundRulesSchema>;
+
+export function parseRoundRules(rules: unknown): RoundRules {
+  return roundRulesSchema.parse(rules ?? {});
+}
+
 export const rounds = pgTable("rounds", {
   id: serial("id").primaryKey(),
-  seasonId: integer("season_id").notNull(),
+  seasonId: integer("season_id").notNull().references(() => seasons.id, { onDelete: "cascade" }),
+  // Null for rounds in the public game
+  leagueId: integer("league_id").references(() => leagues.id, { onDelete: "cascade" }),
   number: integer("number").notNull(),
   isActive: boolean("is_active").notNull().default(false),
+  rules: jsonb("rules").$type<Partial<RoundRules>>().notNull().default({}),
 }, (t) => ({
-  unq: unique().on(t.seasonId, t.number),
+  unq: unique().on(t.seasonId, t.leagueId, t.number),
+  leagueIdx: index("rounds_league_id_idx").on(t.leagueId),
+  number: check("rounds_number_check", sql`${t.number} > 0`),
 }));
 
 export const gameWeeks = pgTable("game_weeks", {
   id: serial("id").primaryKey(),
-  roundId: integer("round_id").notNull(),
+  roundId: integer("round_id").notNull().references(() => rounds.id, { onDelete: "cascade" }),
   number: integer("number").notNull(),
   deadline: timestamp("deadline").notNull(),
   isActive: boolean("is_active").notNull().default(false),
+  settledAt: timestamp("settled_at"),  // Set once eliminations for the week have been applied
+  deadlineProcessedAt: timestamp("deadline_processed_at"),  // Set once missed picks have been dealt with
 }, (t) => ({
   unq: unique().on(t.roundId, t.number),
+  number: check("game_weeks_number_check", sql`${t.number} > 0`),
 }));
 
 export const teams = pgTable("teams", {
   id: serial("id").primaryKey(),
-  name: text("name").notNull().unique(),
+  name: text("name").notNull(),
+  // Clubs are kept per competition so the same name can appear in two of them
+  competition: text("competition").notNull().default("PL"),
   short_name: text("short_name"),
   tla: text("tla"),
   crest: text("crest"),
-});
+}, (t) => ({
+  unq: unique("teams_name_competition_unique").on(t.name, t.competition),
+}));
+
+export const fixtureStatuses = [
+  "SCHEDULED", "TIMED", "LIVE", "IN_PLAY", "PAUSED", "FINISHED", "CANCELLED", "POSTPONED",
+] as const;
+export const fixtureWinners = ["HOME_TEAM", "AWAY_TEAM", "DRAW"] as const;
+
+// Fixtures that won't be played as scheduled; picks on them follow the round's postponedPick rule
+export function isFixtureCalledOff(fixture: { status: string }): boolean {
+  return fixture.status === "POSTPONED" || fixture.status === "CANCELLED";
+}
+
+// Fixtures being played right now, whose score can still change
+export function isFixtureInPlay(fixture: { status: string }): boolean {
+  return fixture.status === "LIVE" || fixture.status === "IN_PLAY" || fixture.status === "PAUSED";
+}
 
 export const fixtures = pgTable("fixtures", {
   id: serial("id").primaryKey(),
   external_id: integer("external_id").unique(),  // Changed from externalId to external_id to match PostgreSQL convention
-  game_week_id: integer("game_week_id"),
-  home_team_id: integer("home_team_id").notNull(),
-  away_team_id: integer("away_team_id").notNull(),
+  // Teams and fixtures can't be deleted while anything still refers to them
+  home_team_id: integer("home_team_id").notNull().references(() => teams.id),
+  away_team_id: integer("away_team_id").notNull().references(() => teams.id),
   home_score: integer("home_score"),
   away_score: integer("away_score"),
   kickoff: timestamp("kickoff").notNull(),
@@ -59,40 +199,228 @@ export const fixtures = pgTable("fixtures", {
   selected: boolean("selected").notNull().default(false),
   winner: text("winner"),
   external_season_id: integer("external_season_id"),  // Renamed from season_id
-  season_id: integer("season_id").notNull(),  // Internal season reference
-  round_id: integer("round_id"),  // Added placeholder for round_id
-});
+  season_id: integer("season_id").notNull().references(() => seasons.id, { onDelete: "cascade" }),  // Internal season reference
+  locked: boolean("locked").notNull().default(false),  // Set by a manual result edit so syncs leave the result alone
+}, (t) => ({
+  seasonIdx: index("fixtures_season_id_idx").on(t.season_id),
+  kickoffIdx: index("fixtures_kickoff_idx").on(t.kickoff),
+  teams: check("fixtures_teams_check", sql`${t.home_team_id} <> ${t.away_team_id}`),
+  scores: check("fixtures_scores_check", sql`${t.home_score} >= 0 AND ${t.away_score} >= 0`),
+}));
+
+// Fixtures assigned to a game week. A join table so leagues can use the same fixture in their own game weeks.
+export const gameWeekFixtures = pgTable("game_week_fixtures", {
+  id: serial("id").primaryKey(),
+  gameWeekId: integer("game_week_id").notNull().references(() => gameWeeks.id, { onDelete: "cascade" }),
+  fixtureId: integer("fixture_id").notNull().references(() => fixtures.id, { onDelete: "cascade" }),
+}, (t) => ({
+  unq: unique().on(t.gameWeekId, t.fixtureId),
+  fixtureIdx: index("game_week_fixtures_fixture_id_idx").on(t.fixtureId),
+}));
 
 export const picks = pgTable("picks", {
   id: serial("id").primaryKey(),
-  userId: integer("user_id").notNull(),
-  teamId: integer("team_id").notNull(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  teamId: integer("team_id").notNull().references(() => teams.id),
   // Game week, round, and season data
-  gameWeekId: integer("game_week_id").notNull(),
-  roundId: integer("round_id").notNull(),
-  seasonId: integer("season_id").notNull(),
+  gameWeekId: integer("game_week_id").notNull().references(() => gameWeeks.id, { onDelete: "cascade" }),
+  roundId: integer("round_id").notNull().references(() => rounds.id, { onDelete: "cascade" }),
+  seasonId: integer("season_id").notNull().references(() => seasons.id, { onDelete: "cascade" }),
   // Fixture data
-  fixtureId: integer("fixture_id").notNull(),
+  fixtureId: integer("fixture_id").notNull().references(() => fixtures.id),
   externalId: integer("external_id"),
   isHomeTeam: boolean("is_home_team").notNull(),
   // Result data
   isCorrect: boolean("is_correct"),
   pickedAt: timestamp("picked_at").notNull().defaultNow(),
+  // Assigned by the deadline job for a player who didn't pick
+  isAutoPick: boolean("is_auto_pick").notNull().default(false),
+  // Set at settlement when the fixture was called off in a "void" round; the team can be picked again
+  isVoid: boolean("is_void").notNull().default(false),
 }, (t) => ({
   unq: unique().on(t.userId, t.gameWeekId),
+  gameWeekIdx: index("picks_game_week_id_idx").on(t.gameWeekId),
+  roundUserIdx: index("picks_round_id_user_id_idx").on(t.roundId, t.userId),
+  fixtureIdx: index("picks_fixture_id_idx").on(t.fixtureId),
+}));
+
+export const pickActions = ["created", "changed", "withdrawn", "auto_picked"] as const;
+
+// Every create, change and withdrawal of a pick, kept after the pick itself is
+// deleted, which is why pick_id and the team and fixture ids aren't foreign keys
+export const pickHistory = pgTable("pick_history", {
+  id: serial("id").primaryKey(),
+  pickId: integer("pick_id").notNull(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  gameWeekId: integer("game_week_id").notNull().references(() => gameWeeks.id, { onDelete: "cascade" }),
+  action: text("action", { enum: pickActions }).notNull(),
+  previousTeamId: integer("previous_team_id"),
+  previousFixtureId: integer("previous_fixture_id"),
+  teamId: integer("team_id"),
+  fixtureId: integer("fixture_id"),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+}, (t) => ({
+  gameWeekIdx: index("pick_history_game_week_id_idx").on(t.gameWeekId),
+}));
+
+export const entryStatuses = ["alive", "eliminated", "winner"] as const;
+export const eliminationReasons = ["lost", "drew", "no_pick"] as const;
+
+// A player's participation in a round
+export const roundEntries = pgTable("round_entries", {
+  id: serial("id").primaryKey(),
+  roundId: integer("round_id").notNull().references(() => rounds.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  status: text("status", { enum: entryStatuses }).notNull().default("alive"),
+  livesRemaining: integer("lives_remaining").notNull().default(1),
+  // Elimination data, kept on shared winners to show the week the round ended
+  eliminatedGameWeekId: integer("eliminated_game_week_id").references(() => gameWeeks.id, { onDelete: "set null" }),
+  eliminationReason: text("elimination_reason", { enum: eliminationReasons }),
+  joinedAt: timestamp("joined_at").notNull().defaultNow(),
+}, (t) => ({
+  unq: unique().on(t.roundId, t.userId),
+  userIdx: index("round_entries_user_id_idx").on(t.userId),
+  lives: check("round_entries_lives_check", sql`${t.livesRemaining} >= 0`),
 }));
 
+export const jobRunStatuses = ["running", "succeeded", "failed"] as const;
+export const jobRunTriggers = ["scheduled", "manual"] as const;
+
+// One run of a background job such as the fixture sync
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  job: text("job").notNull(),
+  trigger: text("trigger", { enum: jobRunTriggers }).notNull(),
+  status: text("status", { enum: jobRunStatuses }).notNull().default("running"),
+  inserted: integer("inserted").notNull().default(0),
+  updated: integer("updated").notNull().default(0),
+  failed: integer("failed").notNull().default(0),
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const notificationTypes = ["deadline_reminder", "game_week_results", "eliminated", "round_winner"] as const;
+export const notificationTypeLabels: Record<NotificationType, string> = {
+  deadline_reminder: "Deadline reminders",
+  game_week_results: "Game week results",
+  eliminated: "Elimination notices",
+  round_winner: "Round winner announcements",
+};
+export const notificationStatuses = ["pending", "sent", "failed"] as const;
+
+// Admin-edited email templates; a type without a row uses the built-in default
+export const notificationTemplates = pgTable("notification_templates", {
+  type: text("type", { enum: notificationTypes }).primaryKey(),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Every email sent to a player. The unique key stops a job sending the same one twice.
+export const notificationLog = pgTable("notification_log", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: text("type", { enum: notificationTypes }).notNull(),
+  // What the email was about, e.g. "game_week:12"
+  key: text("key").notNull(),
+  status: text("status", { enum: notificationStatuses }).notNull().default("pending"),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  sentAt: timestamp("sent_at"),
+}, (t) => ({
+  unq: unique().on(t.userId, t.type, t.key),
+}));
+
+export const auditActions = [
+  "user.role_changed", "user.disabled", "user.enabled", "round_entry.reset",
+  "pick.created", "pick.changed", "pick.withdrawn", "pick.auto_picked",
+  "season.activated", "round.activated", "game_week.activated", "fixtures.assigned",
+  "fixture.settled", "fixture.result_overridden", "game_week.settled", "fixture_sync.run",
+] as const;
+export const auditEntityTypes = ["user", "round_entry", "pick", "season", "round", "game_week", "fixture", "job_run"] as const;
+
+// Every change to game state, whether made by an admin, a player or a background
+// job. Rows are only ever inserted.
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  // Null when a background job made the change
+  actorId: integer("actor_id").references(() => users.id, { onDelete: "set null" }),
+  action: text("action", { enum: auditActions }).notNull(),
+  entityType: text("entity_type", { enum: auditEntityTypes }).notNull(),
+  entityId: integer("entity_id"),
+  // The affected fields before and after the change; null when the entity didn't exist
+  before: jsonb("before").$type<Record<string, unknown>>(),
+  after: jsonb("after").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (t) => ({
+  createdAtIdx: index("audit_log_created_at_idx").on(t.createdAt),
+  entityIdx: index("audit_log_entity_idx").on(t.entityType, t.entityId),
+  actorIdx: index("audit_log_actor_id_idx").on(t.actorId),
+}));
+
+// Existing rows a migration found breaking a foreign key or check constraint.
+// They are left in place for an admin to fix; the constraint only covers new
+// writes until its rows are fixed and it is validated.
+export const integrityIssues = pgTable("integrity_issues", {
+  id: serial("id").primaryKey(),
+  tableName: text("table_name").notNull(),
+  constraintName: text("constraint_name").notNull(),
+  problem: text("problem").notNull(),
+  row: jsonb("row").$type<Record<string, unknown>>().notNull(),
+  foundAt: timestamp("found_at").notNull().defaultNow(),
+});
+
 // Insert schemas
-export const insertUserSchema = createInsertSchema(users).omit({ id: true });
+export const insertUserSchema = createInsertSchema(users)
+  .omit({
+    id: true, activeLeagueId: true, displayName: true, avatarUrl: true, favouriteTeamId: true, notificationOptOuts: true,
+    emailVerifiedAt: true, role: true, disabledAt: true,
+  });
+export const passwordSchema = z.string()
+  .min(8, "Password must be at least 8 characters")
+  .max(128, "Password must be at most 128 characters")
+  .regex(/[A-Za-z]/, "Password must contain a letter")
+  .regex(/[0-9]/, "Password must contain a number");
+// The only fields a new player can set; everything else, like role, keeps its default
+export const registerUserSchema = z.object({
+  username: z.string().trim()
+    .min(3, "Username must be at least 3 characters")
+    .max(30, "Username must be at most 30 characters")
+    .regex(/^[A-Za-z0-9_.-]+$/, "Username can only use letters, numbers, dots, dashes and underscores"),
+  email: z.string().trim().toLowerCase().email("Enter a valid email address").max(254),
+  password: passwordSchema,
+});
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+export const forgotPasswordSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address"),
+});
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset link is invalid"),
+  password: passwordSchema,
+});
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, "Verification link is invalid"),
+});
+export const updateProfileSchema = z.object({
+  displayName: z.string().trim().max(50).transform((name) => name || null).nullable(),
+  avatarUrl: z.string().trim().url("Avatar must be a valid URL").max(500).or(z.literal("")).transform((url) => url || null).nullable(),
+  favouriteTeamId: z.number().int().positive().nullable(),
+});
 export const insertSeasonSchema = createInsertSchema(seasons)
   .extend({
     startDate: z.string().transform((date) => new Date(date)),
     endDate: z.string().transform((date) => new Date(date)),
+    competition: z.enum(competitionCodes).default("PL"),
   })
   .omit({ id: true });
 export const insertRoundSchema = createInsertSchema(rounds)
   .extend({
     number: z.number().or(z.string().transform(val => parseInt(val, 10))),
+    rules: roundRulesSchema.default({}),
   })
   .omit({ id: true });
 export const insertGameWeekSchema = createInsertSchema(gameWeeks)
@@ -106,23 +434,291 @@ export const insertGameWeekSchema = createInsertSchema(gameWeeks)
       return parsedDate;
     }),
   })
-  .omit({ id: true });
+  .omit({ id: true, settledAt: true, deadlineProcessedAt: true });
+export const insertLeagueSchema = createInsertSchema(leagues)
+  .pick({ name: true })
+  .extend({
+    name: z.string().trim().min(1, "League name is required").max(50),
+  });
+export const joinLeagueSchema = z.object({
+  inviteCode: z.string().trim().min(1, "Invite code is required").transform((code) => code.toUpperCase()),
+});
+export const updateNotificationTemplateSchema = z.object({
+  subject: z.string().trim().min(1, "Subject is required").max(200),
+  body: z.string().trim().min(1, "Body is required").max(5000),
+});
+export const notificationPreferencesSchema = z.object({
+  optOuts: z.array(z.enum(notificationTypes)),
+});
+export const updateUserRoleSchema = z.object({
+  role: z.enum(userRoles),
+});
+// Filters for browsing the audit log, read from the query string
+export const auditLogQuerySchema = z.object({
+  action: z.enum(auditActions).optional(),
+  entityType: z.enum(auditEntityTypes).optional(),
+  entityId: z.coerce.number().int().positive().optional(),
+  actorId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+// A manual result edit. Scores and winner are cleared unless the match is finished.
+export const fixtureResultSchema = z.object({
+  status: z.enum(fixtureStatuses),
+  homeScore: z.number().int().min(0).nullable(),
+  awayScore: z.number().int().min(0).nullable(),
+  winner: z.enum(fixtureWinners).nullable(),
+  locked: z.boolean(),
+}).refine(
+  (result) => result.status !== "FINISHED" || result.winner !== null || (result.homeScore !== null && result.awayScore !== null),
+  { message: "A finished fixture needs a score or a winner", path: ["homeScore"] },
+);
 export const insertTeamSchema = createInsertSchema(teams).omit({ id: true });
 export const insertFixtureSchema = createInsertSchema(fixtures).omit({ id: true });
 export const insertPickSchema = createInsertSchema(picks).omit({ id: true });
 
 // Types
+export type CompetitionCode = typeof competitions[number]["code"];
 export type User = typeof users.$inferSelect;
+export type UserRole = typeof userRoles[number];
+export type League = typeof leagues.$inferSelect;
+export type LeagueMember = typeof leagueMembers.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type LoginUser = z.infer<typeof loginSchema>;
+export type UpdateProfile = z.infer<typeof updateProfileSchema>;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type AuthTokenPurpose = typeof authTokenPurposes[number];
 export type Season = typeof seasons.$inferSelect;
 export type Round = typeof rounds.$inferSelect;
 export type GameWeek = typeof gameWeeks.$inferSelect;
 export type Team = typeof teams.$inferSelect;
 export type Fixture = typeof fixtures.$inferSelect;
 export type Pick = typeof picks.$inferSelect;
+// Fields a player can change on an existing pick
+export type PickChange = Omit<Pick, "id" | "userId" | "gameWeekId" | "roundId" | "seasonId" | "isCorrect" | "isAutoPick" | "isVoid">;
+export type PickHistory = typeof pickHistory.$inferSelect;
+export type PickAction = typeof pickActions[number];
+export type JobRun = typeof jobRuns.$inferSelect;
+export type JobRunStatus = typeof jobRunStatuses[number];
+export type JobRunTrigger = typeof jobRunTriggers[number];
+// What a job records when it finishes
+export type JobRunOutcome = Omit<JobRun, "id" | "job" | "trigger" | "startedAt" | "finishedAt">;
+export type NotificationType = typeof notificationTypes[number];
+export type NotificationStatus = typeof notificationStatuses[number];
+export type NotificationTemplate = typeof notificationTemplates.$inferSelect;
+export type NotificationLogEntry = typeof notificationLog.$inferSelect;
+export type UpdateNotificationTemplate = z.infer<typeof updateNotificationTemplateSchema>;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type AuditAction = typeof auditActions[number];
+export type AuditEntityType = typeof auditEntityTypes[number];
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+export type InsertAuditLogEntry = Omit<AuditLogEntry, "id" | "createdAt">;
+export type RoundEntry = typeof roundEntries.$inferSelect;
+export type EntryStatus = typeof entryStatuses[number];
+export type EliminationReason = typeof eliminationReasons[number];
+export type MissedPickPolicy = typeof missedPickPolicies[number];
+export type PostponedPickPolicy = typeof postponedPickPolicies[number];
+export type FixtureStatus = typeof fixtureStatuses[number];
+export type FixtureResult = z.infer<typeof fixtureResultSchema>;
+export type AutoPickStrategy = typeof autoPickStrategies[number];
+
+// The signed-in user as the auth routes return them: everything but the password hash
+export type PublicUser = Omit<User, "password">;
+
+// What other players can see about a user. Never add credentials or contact details here.
+export interface PublicProfile {
+  userId: number;
+  username: string;
+  displayName: string;
+  avatarUrl: string | null;
+  favouriteTeam: { id: number; name: string; crest: string | null } | null;
+}
+
+export interface RoundStandingsEntry extends RoundEntry {
+  player: PublicProfile;
+}
+
+// An audit entry with the profile of whoever made the change
+export interface AuditLogView extends AuditLogEntry {
+  actor: PublicProfile | null;
+}
+
+// A player's entry as the admin users page lists it
+export interface UserRoundEntry extends RoundEntry {
+  round: Round;
+}
+
+export interface PickWithPlayer extends Pick {
+  player: PublicProfile;
+}
+
+export interface GameWeekPicks {
+  gameWeekId: number;
+  // False until the deadline passes; until then picks only holds the viewer's own pick
+  isRevealed: boolean;
+  deadline: Date;
+  picks: PickWithPlayer[];
+  pickedCount: number;
+  // Players who could have picked: those still in the round, and in its
+  // opening week everyone who could join it
+  aliveCount: number;
+}
+
+// A fixture whose score or status changed, as pushed to every client on /api/live.
+// Fixtures are public, so no picks are sent; clients refetch those through the
+// endpoints that hide them from other leagues and before the deadline.
+export interface LiveFixtureUpdate {
+  id: number;
+  status: string;
+  home_score: number | null;
+  away_score: number | null;
+  winner: string | null;
+  gameWeekIds: number[];
+}
+
+export interface LiveFixturesEvent {
+  fixtures: LiveFixtureUpdate[];
+}
+
+export interface LeagueSummary extends League {
+  memberCount: number;
+  isOwner: boolean;
+}
+
+export interface LeagueMemberSummary extends LeagueMember {
+  username: string;
+}
+
+export interface RoundStandings {
+  roundId: number;
+  isComplete: boolean;
+  aliveCount: number;
+  entries: RoundStandingsEntry[];
+}
+
+export interface LeaderboardPick {
+  gameWeekId: number;
+  gameWeekNumber: number;
+  teamId: number;
+  teamName: string;
+  teamCrest: string | null;
+  isCorrect: boolean | null;
+  isAutoPick: boolean;
+}
+
+export interface RoundLeaderboardEntry {
+  userId: number;
+  player: PublicProfile;
+  status: EntryStatus;
+  livesRemaining: number;
+  // Settled game weeks the player was still in the round after
+  weeksSurvived: number;
+  picks: LeaderboardPick[];
+}
+
+export interface RoundLeaderboard {
+  round: Round;
+  isComplete: boolean;
+  settledWeeks: number;
+  entries: RoundLeaderboardEntry[];
+}
+
+export interface SeasonTableRow {
+  userId: number;
+  player: PublicProfile;
+  roundsPlayed: number;
+  roundsWon: number;
+  weeksSurvived: number;
+  // Most successful picks in a row across the season's settled game weeks
+  longestStreak: number;
+}
+
+export interface SeasonStandings {
+  season: Season;
+  rounds: RoundLeaderboard[];
+  table: SeasonTableRow[];
+}
+
+export interface TeamPickStats {
+  teamId: number;
+  teamName: string;
+  teamCrest: string | null;
+  picks: number;
+  survived: number;
+  failed: number;
+  // Picks whose fixture has no result yet
+  pending: number;
+  // Share of decided picks that survived, null until a result is in
+  survivalRate: number | null;
+}
+
+export interface GameWeekStats {
+  gameWeekId: number;
+  gameWeekNumber: number;
+  // Nothing is broken down by team until the deadline passes
+  isRevealed: boolean;
+  totalPicks: number;
+  eliminations: number;
+  teams: TeamPickStats[];
+}
+
+// Where a pick stands if the current score of its in-play fixture holds. A level
+// score is only "at_risk" when the round counts a draw as a loss.
+export const liveProjections = ["surviving", "at_risk", "eliminated"] as const;
+export type LiveProjection = typeof liveProjections[number];
+
+export interface LiveSurvival {
+  gameWeekId: number;
+  // The viewer's pick, null unless its fixture is being played
+  projection: LiveProjection | null;
+  livesRemaining: number | null;
+  // Other players' projections are only counted once the deadline has passed
+  isRevealed: boolean;
+  aliveCount: number;
+  inPlayCount: number;
+  // Players on their last life whose team is losing
+  projectedOut: number;
+  // Players on their last life whose team is level under draw-as-loss rules
+  atRisk: number;
+}
+
+export interface SeasonTeamStats {
+  teamId: number;
+  teamName: string;
+  teamCrest: string | null;
+  picks: number;
+  // Players knocked out of a round by this team
+  eliminations: number;
+}
+
+export interface StatsGameWeek {
+  id: number;
+  roundNumber: number;
+  number: number;
+}
+
+export interface SeasonPickStats {
+  season: Season;
+  // Game weeks past their deadline, which have stats to show
+  gameWeeks: StatsGameWeek[];
+  mostPicked: SeasonTeamStats[];
+  graveyard: SeasonTeamStats[];
+}
+
+// A template as the admin editor sees it, with the placeholders it can use
+export interface NotificationTemplateView {
+  type: NotificationType;
+  subject: string;
+  body: string;
+  isCustom: boolean;
+  variables: string[];
+}
 
 // Add interface for current active data
 export interface CurrentData {
+  league?: League | null;
   season?: Season;
   round?: Round;
   gameWeek?: GameWeek;